@@ -0,0 +1,234 @@
+/**
+ * Atlassian Document Format (ADF) → Markdown renderer, the inverse of
+ * markdown-to-adf.ts.
+ *
+ * Supports the node set markdownToAdf produces plus what JIRA's editor adds:
+ * panels (as GitHub callouts), media, smart links (inlineCard), status
+ * lozenges and dates (as markdownToAdf's {status:TEXT|color} and
+ * {date:YYYY-MM-DD}, so text read back can be written again), emoji, task
+ * lists and expands (as <details>).
+ * Unknown nodes fall back to their text content.
+ *
+ * No external dependencies.
+ */
+
+export type AdfTextFormat = "markdown" | "text";
+
+/** GitHub callout type per ADF panel type */
+const PANEL_CALLOUTS: Record<string, string> = {
+  info: "NOTE",
+  note: "IMPORTANT",
+  success: "TIP",
+  warning: "WARNING",
+  error: "CAUTION",
+};
+
+// ---------------------------------------------------------------------------
+// Inline rendering
+// ---------------------------------------------------------------------------
+
+/** Wrap text in a delimiter, keeping surrounding whitespace outside it. */
+function wrap(text: string, open: string, close = open): string {
+  const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+  if (match[2] === "") return text;
+  return `${match[1]}${open}${match[2]}${close}${match[3]}`;
+}
+
+function renderText(node: any): string {
+  let text: string = node.text ?? "";
+  const marks: any[] = node.marks ?? [];
+  if (marks.some((m) => m.type === "code")) {
+    text = wrap(text, "`");
+  }
+  for (const mark of marks) {
+    if (mark.type === "strong") text = wrap(text, "**");
+    else if (mark.type === "em") text = wrap(text, "*");
+    else if (mark.type === "strike") text = wrap(text, "~~");
+  }
+  const link = marks.find((m) => m.type === "link");
+  if (link?.attrs?.href) text = `[${text}](${link.attrs.href})`;
+  return text;
+}
+
+function renderStatus(attrs: any = {}): string {
+  const color = attrs.color && attrs.color !== "neutral" ? `|${attrs.color}` : "";
+  return `{status:${attrs.text ?? ""}${color}}`;
+}
+
+function renderDate(timestamp: string | number): string {
+  const date = new Date(Number(timestamp));
+  return isNaN(date.getTime()) ? String(timestamp) : `{date:${date.toISOString().slice(0, 10)}}`;
+}
+
+function renderInline(nodes: any[] = []): string {
+  return nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+          return renderText(node);
+        case "hardBreak":
+          return "  \n";
+        case "mention":
+          return node.attrs?.text || `@accountId:${node.attrs?.id}`;
+        case "emoji":
+          return node.attrs?.text || node.attrs?.shortName || "";
+        case "status":
+          return renderStatus(node.attrs);
+        case "date":
+          return renderDate(node.attrs?.timestamp);
+        case "inlineCard":
+          return node.attrs?.url ?? "";
+        default:
+          return renderInline(node.content);
+      }
+    })
+    .join("");
+}
+
+// ---------------------------------------------------------------------------
+// Block rendering
+// ---------------------------------------------------------------------------
+
+function indent(text: string, prefix: string, firstPrefix = prefix): string {
+  return text
+    .split("\n")
+    .map((line, i) => (i === 0 ? firstPrefix : line === "" ? "" : prefix) + line)
+    .join("\n");
+}
+
+function quote(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line === "" ? ">" : `> ${line}`))
+    .join("\n");
+}
+
+function renderListItems(items: any[], marker: (index: number) => string): string {
+  return items
+    .map((item, index) => {
+      const bullet = marker(index);
+      const body = renderBlocks(item.content ?? [], "\n");
+      return indent(body, " ".repeat(bullet.length), bullet);
+    })
+    .join("\n");
+}
+
+function renderTaskItems(items: any[]): string {
+  return items
+    .map((item) => {
+      // Nested task lists appear as siblings of the items they belong to
+      if (item.type === "taskList") return indent(renderTaskItems(item.content ?? []), "  ");
+      const bullet = item.attrs?.state === "DONE" ? "- [x] " : "- [ ] ";
+      return `${bullet}${renderInline(item.content)}`;
+    })
+    .join("\n");
+}
+
+function renderMedia(node: any): string {
+  const attrs = node.attrs ?? {};
+  if (attrs.type === "external" && attrs.url) return `![${attrs.alt ?? ""}](${attrs.url})`;
+  return `[attachment: ${attrs.alt || attrs.id || "file"}]`;
+}
+
+function tableCell(cell: any): string {
+  return renderBlocks(cell.content ?? [], "\n")
+    .replace(/\|/g, "\\|")
+    .replace(/\n+/g, "<br>");
+}
+
+function renderTable(node: any): string {
+  const rows: string[][] = (node.content ?? []).map((row: any) => (row.content ?? []).map(tableCell));
+  if (rows.length === 0) return "";
+  const columns = Math.max(...rows.map((r) => r.length));
+  const line = (cells: string[]) =>
+    `| ${Array.from({ length: columns }, (_, i) => cells[i] ?? "").join(" | ")} |`;
+  const [header, ...body] = rows;
+  return [line(header), line(Array(columns).fill("---")), ...body.map(line)].join("\n");
+}
+
+function renderBlock(node: any): string {
+  switch (node.type) {
+    case "paragraph":
+      return renderInline(node.content);
+    case "heading":
+      return `${"#".repeat(node.attrs?.level ?? 1)} ${renderInline(node.content)}`;
+    case "bulletList":
+      return renderListItems(node.content ?? [], () => "- ");
+    case "orderedList": {
+      const start = node.attrs?.order ?? 1;
+      return renderListItems(node.content ?? [], (i) => `${start + i}. `);
+    }
+    case "taskList":
+      return renderTaskItems(node.content ?? []);
+    case "decisionList":
+      return (node.content ?? []).map((item: any) => `- Decision: ${renderInline(item.content)}`).join("\n");
+    case "codeBlock": {
+      const code = (node.content ?? []).map((t: any) => t.text ?? "").join("");
+      const fence = code.includes("```") ? "~~~" : "```";
+      return `${fence}${node.attrs?.language ?? ""}\n${code}\n${fence}`;
+    }
+    case "blockquote":
+      return quote(renderBlocks(node.content ?? []));
+    case "panel": {
+      const callout = PANEL_CALLOUTS[node.attrs?.panelType] ?? "NOTE";
+      return quote(`[!${callout}]\n${renderBlocks(node.content ?? [])}`);
+    }
+    case "expand":
+    case "nestedExpand":
+      return `<details>\n<summary>${node.attrs?.title ?? ""}</summary>\n\n${renderBlocks(node.content ?? [])}\n\n</details>`;
+    case "rule":
+      return "---";
+    case "table":
+      return renderTable(node);
+    case "mediaSingle":
+    case "mediaGroup":
+      return (node.content ?? []).map(renderMedia).join("\n");
+    case "media":
+      return renderMedia(node);
+    case "blockCard":
+    case "embedCard":
+      return node.attrs?.url ?? "";
+    default:
+      return node.content ? renderBlocks(node.content) : renderInline([node]);
+  }
+}
+
+function renderBlocks(nodes: any[], separator = "\n\n"): string {
+  return nodes
+    .map(renderBlock)
+    .filter((block) => block !== "")
+    .join(separator);
+}
+
+// ---------------------------------------------------------------------------
+// Entry points
+// ---------------------------------------------------------------------------
+
+export function adfToMarkdown(adf: any): string {
+  if (!adf || !adf.content) return "";
+  return renderBlocks(adf.content);
+}
+
+/**
+ * Plain text of an ADF document: text nodes joined by spaces.
+ */
+export function adfToPlainText(adf: any): string {
+  if (!adf || !adf.content) return "";
+  const texts: string[] = [];
+  const walk = (node: any) => {
+    if (node.type === "text" && node.text) {
+      texts.push(node.text);
+    }
+    if (node.content) {
+      for (const child of node.content) {
+        walk(child);
+      }
+    }
+  };
+  walk(adf);
+  return texts.join(" ");
+}
+
+export function renderAdf(adf: any, format: AdfTextFormat): string {
+  return format === "markdown" ? adfToMarkdown(adf) : adfToPlainText(adf);
+}
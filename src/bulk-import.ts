@@ -0,0 +1,124 @@
+/**
+ * Parsing and validation of bulk worklog imports (CSV or JSON).
+ */
+
+import { parseCsv } from "./csv.js";
+import { parseDateExpression } from "./date-utils.js";
+import { parseTime, formatTime } from "./schedule.js";
+
+export interface BulkRow {
+  row: number; // 1-based data row number
+  issueKey: string;
+  date: string;
+  hours: number;
+  description: string;
+  startTime?: string; // HH:MM:SS
+}
+
+export interface BulkRowIssue {
+  row: number;
+  message: string;
+}
+
+/** Accepted column names (lowercase) per field */
+const COLUMN_ALIASES: Record<keyof Omit<BulkRow, "row">, string[]> = {
+  issueKey: ["issuekey", "issue", "key", "issue_key"],
+  date: ["date", "day", "startdate"],
+  hours: ["hours", "time", "duration"],
+  description: ["description", "comment", "desc"],
+  startTime: ["starttime", "start", "start_time"],
+};
+
+function detectFormat(data: string): "csv" | "json" {
+  const trimmed = data.trim();
+  return trimmed.startsWith("[") || trimmed.startsWith("{") ? "json" : "csv";
+}
+
+function rawRecordsFromCsv(data: string): Array<Record<string, string>> {
+  const [header, ...lines] = parseCsv(data);
+  if (!header) return [];
+  const columns = header.map((h) => h.trim().toLowerCase());
+  return lines.map((fields) =>
+    Object.fromEntries(columns.map((col, i) => [col, (fields[i] ?? "").trim()]))
+  );
+}
+
+function rawRecordsFromJson(data: string): Array<Record<string, unknown>> {
+  const parsed = JSON.parse(data);
+  const list = Array.isArray(parsed) ? parsed : parsed.rows ?? parsed.worklogs;
+  if (!Array.isArray(list)) {
+    throw new Error("JSON input must be an array of rows (or an object with a 'rows' array)");
+  }
+  return list.map((r: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(r).map(([k, v]) => [k.toLowerCase(), v]))
+  );
+}
+
+function pick(record: Record<string, unknown>, field: keyof typeof COLUMN_ALIASES): unknown {
+  for (const alias of COLUMN_ALIASES[field]) {
+    if (record[alias] !== undefined && record[alias] !== "") return record[alias];
+  }
+  return undefined;
+}
+
+/**
+ * Parse bulk input into rows. Rows that cannot be parsed are returned as errors.
+ * Relative dates ("yesterday", "last friday") are resolved against `today`.
+ */
+export function parseBulkRows(
+  data: string,
+  today: string,
+  format?: "csv" | "json"
+): { rows: BulkRow[]; errors: BulkRowIssue[] } {
+  const records =
+    (format ?? detectFormat(data)) === "json" ? rawRecordsFromJson(data) : rawRecordsFromCsv(data);
+
+  const rows: BulkRow[] = [];
+  const errors: BulkRowIssue[] = [];
+
+  records.forEach((record, index) => {
+    const row = index + 1;
+    const problems: string[] = [];
+
+    const issueKey = String(pick(record, "issueKey") ?? "").trim().toUpperCase();
+    if (!/^[A-Z][A-Z0-9]+-\d+$/.test(issueKey)) problems.push(`invalid issue key '${issueKey}'`);
+
+    const dateRaw = String(pick(record, "date") ?? "").trim();
+    let date = "";
+    try {
+      date = parseDateExpression(dateRaw, today);
+    } catch {
+      problems.push(`invalid date '${dateRaw}' (expected YYYY-MM-DD or a relative date)`);
+    }
+
+    const hoursRaw = pick(record, "hours");
+    const hours = typeof hoursRaw === "number" ? hoursRaw : Number(String(hoursRaw ?? "").replace(",", "."));
+    if (!Number.isFinite(hours) || hours <= 0 || hours > 24) problems.push(`invalid hours '${hoursRaw}'`);
+
+    let startTime: string | undefined;
+    const startRaw = pick(record, "startTime");
+    if (startRaw !== undefined) {
+      try {
+        startTime = formatTime(parseTime(String(startRaw).trim()));
+      } catch {
+        problems.push(`invalid start time '${startRaw}'`);
+      }
+    }
+
+    if (problems.length > 0) {
+      errors.push({ row, message: problems.join("; ") });
+      return;
+    }
+
+    rows.push({
+      row,
+      issueKey,
+      date,
+      hours,
+      description: String(pick(record, "description") ?? ""),
+      startTime,
+    });
+  });
+
+  return { rows, errors };
+}
@@ -15,13 +15,34 @@ import { homedir } from "os";
 import { join } from "path";
 import { JiraConfig } from "./jira-client.js";
 import { TempoConfig } from "./tempo-client.js";
+import { WorkSchedule, ScheduleFileConfig, DEFAULT_SCHEDULE, buildSchedule } from "./schedule.js";
+import { systemTimeZone, assertTimeZone } from "./date-utils.js";
 
 export interface InstanceConfig {
   name: string;
   jira: JiraConfig;
-  tempo: TempoConfig;
+  /** null when the instance has no Tempo; worklogs then go to JIRA's native worklog API */
+  tempo: TempoConfig | null;
   /** Folder path patterns that map to this instance */
   pathPatterns: string[];
+  schedule: WorkSchedule;
+  worklogDefaults: WorklogDefaults;
+  /** Granularity that stopped timers are rounded to */
+  timerRoundingMinutes: number;
+  /** Local git repositories for this instance (used to find the day's work from commits) */
+  repositories: string[];
+  /** IANA time zone used for "today", relative dates and timer start times */
+  timezone: string;
+  /** Preferred status sequences for multi-hop transitions, e.g. [["To Do", "In Progress", "Done"]] */
+  workflowPaths: string[][];
+}
+
+/** Defaults applied to every worklog created on an instance */
+export interface WorklogDefaults {
+  /** Tempo account key */
+  account?: string;
+  /** Work attribute values by attribute key (e.g. { "_Billable_": "true" }) */
+  attributes: Record<string, string>;
 }
 
 export interface ResolvedConfig {
@@ -33,16 +54,33 @@ export interface ResolvedConfig {
 interface ConfigFile {
   email: string;
   baseBranch?: string;
+  /** Default schedule for all instances */
+  schedule?: ScheduleFileConfig;
+  timerRoundingMinutes?: number;
+  /** Default IANA time zone for all instances (default: system time zone) */
+  timezone?: string;
   instances: Array<{
     name: string;
     baseUrl: string;
     jiraToken: string;
-    tempoToken: string;
+    /** Omit for instances without Tempo */
+    tempoToken?: string;
     pathPatterns: string[];
+    /** Overrides the top-level schedule for this instance */
+    schedule?: ScheduleFileConfig;
+    worklogDefaults?: { account?: string; attributes?: Record<string, string> };
+    timerRoundingMinutes?: number;
+    repositories?: string[];
+    timezone?: string;
+    /** Custom field IDs by name, e.g. { "storyPoints": "customfield_10016" } */
+    customFields?: Record<string, string>;
+    workflowPaths?: string[][];
   }>;
 }
 
-let cachedConfig: { instances: InstanceConfig[]; baseBranch: string } | null = null;
+const DEFAULT_TIMER_ROUNDING_MINUTES = 15;
+
+let cachedConfig: { instances: InstanceConfig[]; baseBranch: string; timezone: string } | null = null;
 
 function getEnvOrNull(key: string): string | null {
   return process.env[key] ?? null;
@@ -75,17 +113,27 @@ function loadConfigFile(): ConfigFile | null {
  * Build instances from config file
  */
 function buildInstancesFromFile(config: ConfigFile): InstanceConfig[] {
+  const defaultTimezone = config.timezone ?? systemTimeZone();
   return config.instances.map((inst) => ({
     name: inst.name,
     jira: {
       baseUrl: inst.baseUrl,
       email: config.email,
       apiToken: inst.jiraToken,
+      customFields: inst.customFields ?? {},
     },
-    tempo: {
-      apiToken: inst.tempoToken,
-    },
+    tempo: inst.tempoToken ? { apiToken: inst.tempoToken } : null,
     pathPatterns: inst.pathPatterns,
+    schedule: buildSchedule(config.schedule, inst.schedule),
+    worklogDefaults: {
+      account: inst.worklogDefaults?.account,
+      attributes: inst.worklogDefaults?.attributes ?? {},
+    },
+    timerRoundingMinutes:
+      inst.timerRoundingMinutes ?? config.timerRoundingMinutes ?? DEFAULT_TIMER_ROUNDING_MINUTES,
+    repositories: inst.repositories ?? [],
+    timezone: inst.timezone ?? defaultTimezone,
+    workflowPaths: inst.workflowPaths ?? [],
   }));
 }
 
@@ -95,42 +143,61 @@ function buildInstancesFromFile(config: ConfigFile): InstanceConfig[] {
 function buildInstancesFromEnv(): InstanceConfig[] {
   const email = process.env.JIRA_EMAIL;
   if (!email) return [];
+  const timezone = process.env.TIMEZONE ?? systemTimeZone();
 
   const instances: InstanceConfig[] = [];
 
   // Markenmehrwert (MMW)
   const mmwJiraToken = getEnvOrNull("JIRA_TOKEN_MMW");
   const mmwTempoToken = getEnvOrNull("TEMPO_TOKEN_MMW");
-  if (mmwJiraToken && mmwTempoToken) {
+  if (mmwJiraToken) {
     instances.push({
       name: "mmw",
       jira: { baseUrl: "markenmehrwert.atlassian.net", email, apiToken: mmwJiraToken },
-      tempo: { apiToken: mmwTempoToken },
+      tempo: mmwTempoToken ? { apiToken: mmwTempoToken } : null,
       pathPatterns: ["projects/mmw/", "projects/mmw-", "/markenmehrwert/"],
+      schedule: DEFAULT_SCHEDULE,
+      worklogDefaults: { attributes: {} },
+      timerRoundingMinutes: DEFAULT_TIMER_ROUNDING_MINUTES,
+      repositories: [],
+      timezone,
+      workflowPaths: [],
     });
   }
 
   // Pares
   const paresJiraToken = getEnvOrNull("JIRA_TOKEN_PARES");
   const paresTempoToken = getEnvOrNull("TEMPO_TOKEN_PARES");
-  if (paresJiraToken && paresTempoToken) {
+  if (paresJiraToken) {
     instances.push({
       name: "pares",
       jira: { baseUrl: "pares-it.atlassian.net", email, apiToken: paresJiraToken },
-      tempo: { apiToken: paresTempoToken },
+      tempo: paresTempoToken ? { apiToken: paresTempoToken } : null,
       pathPatterns: ["projects/pares/", "projects/pares-"],
+      schedule: DEFAULT_SCHEDULE,
+      worklogDefaults: { attributes: {} },
+      timerRoundingMinutes: DEFAULT_TIMER_ROUNDING_MINUTES,
+      repositories: [],
+      timezone,
+      workflowPaths: [],
     });
   }
 
   // Lagoasoft
   const lagoasoftJiraToken = getEnvOrNull("JIRA_TOKEN_LAGOASOFT");
   const lagoasoftTempoToken = getEnvOrNull("TEMPO_TOKEN_LAGOASOFT");
-  if (lagoasoftJiraToken && lagoasoftTempoToken) {
+  if (lagoasoftJiraToken) {
     instances.push({
       name: "lagoasoft",
       jira: { baseUrl: "lagoasoft.atlassian.net", email, apiToken: lagoasoftJiraToken },
-      tempo: { apiToken: lagoasoftTempoToken },
+      tempo: lagoasoftTempoToken ? { apiToken: lagoasoftTempoToken } : null,
       pathPatterns: ["projects/lagoasoft/", "projects/lagoasoft-"],
+      schedule: DEFAULT_SCHEDULE,
+      worklogDefaults: { attributes: {} },
+      timerRoundingMinutes: DEFAULT_TIMER_ROUNDING_MINUTES,
+      repositories: [],
+      timezone,
+      workflowPaths: [],
     });
   }
 
@@ -140,24 +207,29 @@ function buildInstancesFromEnv(): InstanceConfig[] {
 /**
  * Build all instance configs (cached)
  */
-function buildInstances(): { instances: InstanceConfig[]; baseBranch: string } {
+function buildInstances(): { instances: InstanceConfig[]; baseBranch: string; timezone: string } {
   if (cachedConfig) return cachedConfig;
 
-  // Try config file first
+  // Try config file first, fall back to environment variables
   const configFile = loadConfigFile();
-  if (configFile) {
-    cachedConfig = {
-      instances: buildInstancesFromFile(configFile),
-      baseBranch: configFile.baseBranch ?? "main",
-    };
-    return cachedConfig;
+  const config = configFile
+    ? {
+        instances: buildInstancesFromFile(configFile),
+        baseBranch: configFile.baseBranch ?? "main",
+        timezone: configFile.timezone ?? systemTimeZone(),
+      }
+    : {
+        instances: buildInstancesFromEnv(),
+        baseBranch: process.env.DEFAULT_BASE_BRANCH ?? "main",
+        timezone: process.env.TIMEZONE ?? systemTimeZone(),
+      };
+
+  assertTimeZone(config.timezone);
+  for (const inst of config.instances) {
+    assertTimeZone(inst.timezone);
   }
 
-  // Fall back to environment variables
-  cachedConfig = {
-    instances: buildInstancesFromEnv(),
-    baseBranch: process.env.DEFAULT_BASE_BRANCH ?? "main",
-  };
+  cachedConfig = config;
   return cachedConfig;
 }
 
@@ -213,6 +285,13 @@ export function getAllInstances(): InstanceConfig[] {
   return buildInstances().instances;
 }
 
+/**
+ * Get the default time zone (for cross-instance queries).
+ */
+export function getDefaultTimezone(): string {
+  return buildInstances().timezone;
+}
+
 /**
  * Get config file paths (for diagnostics).
  */
@@ -0,0 +1,69 @@
+/**
+ * Minimal RFC 4180 CSV parsing and formatting. No external dependencies.
+ */
+
+/**
+ * Parse CSV text into rows of fields. Handles quoted fields with embedded
+ * commas, quotes ("") and newlines. Also accepts ';' or tab as the delimiter
+ * when the first line contains no commas.
+ */
+export function parseCsv(text: string): string[][] {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const delimiter = firstLine.includes(",") ? "," : firstLine.includes(";") ? ";" : firstLine.includes("\t") ? "\t" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inQuotes) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        inQuotes = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"' && field === "") {
+      inQuotes = true;
+    } else if (ch === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter((r) => r.some((f) => f.trim() !== ""));
+}
+
+/**
+ * Format rows as CSV, quoting fields that contain commas, quotes or newlines.
+ */
+export function formatCsv(rows: Array<Array<string | number>>): string {
+  return rows
+    .map((row) =>
+      row
+        .map((value) => {
+          const field = String(value);
+          return /[",\r\n]/.test(field) ? `"${field.replace(/"/g, '""')}"` : field;
+        })
+        .join(",")
+    )
+    .join("\r\n");
+}
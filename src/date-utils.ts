@@ -0,0 +1,235 @@
+/**
+ * Date helpers for YYYY-MM-DD strings, time zones and relative date expressions.
+ *
+ * Calendar math is done in UTC so day arithmetic never shifts across DST.
+ */
+
+function parseDate(date: string): Date {
+  const d = new Date(`${date}T00:00:00Z`);
+  // Round-trip check rejects rolled-over dates like 2024-02-30
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date) || isNaN(d.getTime()) || d.toISOString().slice(0, 10) !== date) {
+    throw new Error(`Invalid date '${date}', expected YYYY-MM-DD`);
+  }
+  return d;
+}
+
+export function isValidDate(date: string): boolean {
+  try {
+    parseDate(date);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Add (or subtract) days to a date.
+ */
+export function addDays(date: string, days: number): string {
+  const d = parseDate(date);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+}
+
+/**
+ * ISO weekday: 1 = Monday ... 7 = Sunday.
+ */
+export function isoWeekday(date: string): number {
+  const day = parseDate(date).getUTCDay();
+  return day === 0 ? 7 : day;
+}
+
+export function weekdayName(date: string): string {
+  return ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"][isoWeekday(date) - 1];
+}
+
+/**
+ * All dates from `from` to `to` (inclusive).
+ */
+export function eachDay(from: string, to: string): string[] {
+  if (from > to) {
+    throw new Error(`Invalid range: ${from} is after ${to}`);
+  }
+  const days: string[] = [];
+  for (let d = from; d <= to; d = addDays(d, 1)) {
+    days.push(d);
+  }
+  return days;
+}
+
+/**
+ * Monday..Sunday of the week containing `date`.
+ */
+export function weekRange(date: string): { from: string; to: string } {
+  const from = addDays(date, 1 - isoWeekday(date));
+  return { from, to: addDays(from, 6) };
+}
+
+/**
+ * First..last day of the month containing `date`.
+ */
+export function monthRange(date: string): { from: string; to: string } {
+  const d = parseDate(date);
+  const first = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), 1));
+  const last = new Date(Date.UTC(d.getUTCFullYear(), d.getUTCMonth() + 1, 0));
+  return { from: formatDate(first), to: formatDate(last) };
+}
+
+// ---------------------------------------------------------------------------
+// Time zones
+// ---------------------------------------------------------------------------
+
+/**
+ * The system's IANA time zone (e.g. "Europe/Lisbon").
+ */
+export function systemTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+/**
+ * Throw if `timeZone` is not a valid IANA time zone name.
+ */
+export function assertTimeZone(timeZone: string): void {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new Error(`Invalid time zone '${timeZone}', expected an IANA name like 'Europe/Berlin'`);
+  }
+}
+
+function zonedParts(d: Date, timeZone: string): Record<string, string> {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+    hourCycle: "h23",
+  }).formatToParts(d);
+  return Object.fromEntries(parts.map((p) => [p.type, p.value]));
+}
+
+/**
+ * Calendar date of a timestamp in a time zone as YYYY-MM-DD.
+ */
+export function toZonedDate(d: Date, timeZone: string): string {
+  const p = zonedParts(d, timeZone);
+  return `${p.year}-${p.month}-${p.day}`;
+}
+
+/**
+ * Wall-clock time of a timestamp in a time zone as HH:MM:SS.
+ */
+export function toZonedTime(d: Date, timeZone: string): string {
+  const p = zonedParts(d, timeZone);
+  return `${p.hour}:${p.minute}:${p.second}`;
+}
+
+/**
+ * UTC offset of a time zone at a local date and time, formatted as "+0200".
+ */
+export function zonedOffset(date: string, time: string, timeZone: string): string {
+  const [y, mo, d] = date.split("-").map(Number);
+  const [h, mi, s] = time.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(y, mo - 1, d, h, mi, s || 0);
+
+  const offsetAt = (instant: number) => {
+    const p = zonedParts(new Date(instant), timeZone);
+    const zonedAsUtc = Date.UTC(+p.year, +p.month - 1, +p.day, +p.hour, +p.minute, +p.second);
+    return Math.round((zonedAsUtc - instant) / 60000);
+  };
+
+  // Second pass corrects the guess near DST transitions
+  const guess = offsetAt(wallClockAsUtc);
+  const minutes = offsetAt(wallClockAsUtc - guess * 60000);
+
+  const sign = minutes < 0 ? "-" : "+";
+  const abs = Math.abs(minutes);
+  return `${sign}${String(Math.floor(abs / 60)).padStart(2, "0")}${String(abs % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Today's date in a time zone.
+ */
+export function todayIn(timeZone: string): string {
+  return toZonedDate(new Date(), timeZone);
+}
+
+// ---------------------------------------------------------------------------
+// Relative date expressions
+// ---------------------------------------------------------------------------
+
+const WEEKDAYS = ["monday", "tuesday", "wednesday", "thursday", "friday", "saturday", "sunday"];
+
+function weekdayIndex(name: string): number {
+  const index = WEEKDAYS.findIndex((d) => d === name || d.slice(0, 3) === name);
+  return index === -1 ? -1 : index + 1;
+}
+
+/**
+ * Resolve a date expression relative to `today`:
+ * YYYY-MM-DD, "today", "yesterday", "tomorrow", "N days ago",
+ * "friday" (most recent, including today), "last friday" (before today),
+ * "next friday" (after today), "this friday" (in the current ISO week, so
+ * possibly past or future).
+ */
+export function parseDateExpression(expr: string, today: string): string {
+  const text = expr.trim().toLowerCase().replace(/\s+/g, " ");
+
+  if (isValidDate(text)) return text;
+  if (text === "today") return today;
+  if (text === "yesterday") return addDays(today, -1);
+  if (text === "tomorrow") return addDays(today, 1);
+
+  const ago = text.match(/^(\d+) days? ago$/);
+  if (ago) return addDays(today, -Number(ago[1]));
+
+  const weekday = text.match(/^(last |next |this )?([a-z]+)$/);
+  if (weekday) {
+    const target = weekdayIndex(weekday[2]);
+    if (target !== -1) {
+      const current = isoWeekday(today);
+      if (weekday[1] === "next ") {
+        return addDays(today, ((target - current + 6) % 7) + 1);
+      }
+      if (weekday[1] === "this ") {
+        return addDays(today, target - current);
+      }
+      const back = (current - target + 7) % 7;
+      return addDays(today, weekday[1] === "last " && back === 0 ? -7 : -back);
+    }
+  }
+
+  throw new Error(
+    `Invalid date '${expr}', expected YYYY-MM-DD or a relative date like 'yesterday', 'last friday', '3 days ago'`
+  );
+}
+
+/**
+ * Resolve a range expression relative to `today`: "this week", "last week",
+ * "next week", "this month", "last month". Returns null for anything else.
+ */
+export function parseRangeExpression(expr: string, today: string): { from: string; to: string } | null {
+  const text = expr.trim().toLowerCase().replace(/\s+/g, " ");
+  switch (text) {
+    case "this week":
+      return weekRange(today);
+    case "last week":
+      return weekRange(addDays(today, -7));
+    case "next week":
+      return weekRange(addDays(today, 7));
+    case "this month":
+      return monthRange(today);
+    case "last month":
+      return monthRange(addDays(monthRange(today).from, -1));
+    default:
+      return null;
+  }
+}
+
@@ -0,0 +1,42 @@
+/**
+ * Split a number of seconds across weighted issues.
+ */
+
+export interface Allocation {
+  issueKey: string;
+  seconds: number;
+  weight: number;
+}
+
+/**
+ * Distribute `totalSeconds` proportionally to the weights, in multiples of
+ * `granularitySeconds` (largest remainder method, so the parts add up to the
+ * total rounded down to the granularity). Issues that end up with 0 are dropped.
+ */
+export function distributeSeconds(
+  weights: Record<string, number>,
+  totalSeconds: number,
+  granularitySeconds: number
+): Allocation[] {
+  const positive = Object.entries(weights).filter(([, w]) => w > 0);
+  const weightSum = positive.reduce((sum, [, w]) => sum + w, 0);
+  const units = Math.floor(totalSeconds / granularitySeconds);
+  if (weightSum === 0 || units === 0) return [];
+
+  const shares = positive.map(([issueKey, weight]) => {
+    const exact = (units * weight) / weightSum;
+    return { issueKey, weight, units: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+
+  let leftover = units - shares.reduce((sum, s) => sum + s.units, 0);
+  for (const share of [...shares].sort((a, b) => b.remainder - a.remainder)) {
+    if (leftover === 0) break;
+    share.units++;
+    leftover--;
+  }
+
+  return shares
+    .filter((s) => s.units > 0)
+    .map((s) => ({ issueKey: s.issueKey, weight: s.weight, seconds: s.units * granularitySeconds }))
+    .sort((a, b) => b.seconds - a.seconds);
+}
@@ -3,6 +3,7 @@
  */
 
 import { execSync } from "node:child_process";
+import { zonedOffset } from "./date-utils.js";
 
 function run(cmd: string, cwd?: string): string {
   return execSync(cmd, {
@@ -118,3 +119,50 @@ export function getDiffSummary(
     return "";
   }
 }
+
+/**
+ * Get the configured git user email (used to filter commits by author).
+ */
+export function getGitUserEmail(cwd?: string): string | null {
+  try {
+    return run("git config user.email", cwd) || null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Get commits (on any branch) made on a given date in `timeZone`, optionally by one author.
+ * Includes the ref names pointing at each commit, useful for issue keys in branch names.
+ */
+export function getCommitsForDate(
+  date: string,
+  timeZone: string,
+  cwd?: string,
+  author?: string
+): Array<{ hash: string; message: string; date: string; author: string; refs: string }> {
+  try {
+    const authorFilter = author ? ` --author="${author}"` : "";
+    const since = `${date}T00:00:00${zonedOffset(date, "00:00:00", timeZone)}`;
+    const until = `${date}T23:59:59${zonedOffset(date, "23:59:59", timeZone)}`;
+    const log = run(
+      `git log --all --since="${since}" --until="${until}"${authorFilter} --format="%H||%s||%ai||%an||%D" --no-merges`,
+      cwd
+    );
+    if (!log) return [];
+
+    return log.split("\n").map((line) => {
+      const [hash, message, commitDate, commitAuthor, refs] = line.split("||");
+      return { hash, message, date: commitDate, author: commitAuthor, refs: refs ?? "" };
+    });
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Extract all JIRA issue keys mentioned in a text (commit message, branch name).
+ */
+export function extractIssueKeys(text: string): string[] {
+  return [...new Set(text.match(/[A-Z][A-Z0-9]+-\d+/g) ?? [])];
+}
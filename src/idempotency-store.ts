@@ -0,0 +1,49 @@
+/**
+ * Idempotency keys for worklog creation, persisted locally.
+ *
+ * A client that retries tempo_log_time with the same key gets the worklog
+ * created by the first call instead of a second booking.
+ */
+
+import { readState, writeState } from "./local-state.js";
+
+const IDEMPOTENCY_FILE = "idempotency.json";
+
+/** Keys older than this are forgotten */
+const MAX_AGE_MS = 30 * 24 * 3600 * 1000;
+
+export interface IdempotencyRecord {
+  worklogId: number;
+  issueKey: string;
+  createdAt: string; // ISO timestamp
+}
+
+type IdempotencyMap = Record<string, IdempotencyRecord>;
+
+function storeKey(instance: string, key: string): string {
+  return `${instance}:${key}`;
+}
+
+function loadRecords(): IdempotencyMap {
+  const records = readState<IdempotencyMap>(IDEMPOTENCY_FILE, {});
+  const cutoff = Date.now() - MAX_AGE_MS;
+  return Object.fromEntries(
+    Object.entries(records).filter(([, r]) => new Date(r.createdAt).getTime() >= cutoff)
+  );
+}
+
+export function getIdempotencyRecord(instance: string, key: string): IdempotencyRecord | null {
+  return loadRecords()[storeKey(instance, key)] ?? null;
+}
+
+export function saveIdempotencyRecord(instance: string, key: string, worklogId: number, issueKey: string): void {
+  const records = loadRecords();
+  records[storeKey(instance, key)] = { worklogId, issueKey, createdAt: new Date().toISOString() };
+  writeState(IDEMPOTENCY_FILE, records);
+}
+
+export function removeIdempotencyRecord(instance: string, key: string): void {
+  const records = loadRecords();
+  delete records[storeKey(instance, key)];
+  writeState(IDEMPOTENCY_FILE, records);
+}
@@ -10,10 +10,47 @@
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { z } from "zod";
+import { writeFileSync } from "node:fs";
+import { resolve } from "node:path";
 
-import { JiraClient } from "./jira-client.js";
-import { TempoClient } from "./tempo-client.js";
-import { resolveInstance, listInstances, getAllInstances } from "./config.js";
+import { JiraClient, JiraIssue } from "./jira-client.js";
+import { TempoClient, TempoAttributeValue, TempoWorklog, TempoWorklogEntry, TempoApproval } from "./tempo-client.js";
+import {
+  resolveInstance,
+  listInstances,
+  getAllInstances,
+  getDefaultTimezone,
+  InstanceConfig,
+  WorklogDefaults,
+} from "./config.js";
+import { recordChange, undoLastChange, toSnapshot } from "./worklog-journal.js";
+import { WorklogBackend, createWorklogBackend, requireTempo, isNotFoundError } from "./worklog-backend.js";
+import {
+  findTransition,
+  resolveTransitionFields,
+  describeMissingFields,
+  findStatusPath,
+  pickExplorationStep,
+} from "./transitions.js";
+import { getKnownTransitions, recordTransitions } from "./workflow-store.js";
+import {
+  addDays,
+  eachDay,
+  weekdayName,
+  weekRange,
+  monthRange,
+  todayIn,
+  toZonedDate,
+  toZonedTime,
+  parseDateExpression,
+  parseRangeExpression,
+} from "./date-utils.js";
+import { parseTime, formatTime, getRequiredHours, findShortfalls } from "./schedule.js";
+import { startTimer, getTimer, listTimers, removeTimer, roundElapsed } from "./timer-store.js";
+import { distributeSeconds } from "./distribute.js";
+import { parseBulkRows } from "./bulk-import.js";
+import { exportTimesheet } from "./timesheet-export.js";
+import { getIdempotencyRecord, saveIdempotencyRecord, removeIdempotencyRecord } from "./idempotency-store.js";
 import {
   getIssueKeyFromBranch,
   getCurrentBranch,
@@ -21,66 +58,1954 @@ import {
   getPrUrl,
   createBranch,
   getDiffSummary,
+  getGitUserEmail,
+  getCommitsForDate,
+  extractIssueKeys,
 } from "./git-utils.js";
 
-const server = new McpServer({
-  name: "jira-tempo",
-  version: "1.0.0",
-});
+const server = new McpServer({
+  name: "jira-tempo",
+  version: "1.0.0",
+});
+
+// ---------------------------------------------------------------------------
+// Helper: resolve clients from cwd
+// ---------------------------------------------------------------------------
+
+function getClients(cwd: string) {
+  const config = resolveInstance(cwd);
+  return {
+    jira: new JiraClient(config.instance.jira),
+    // Tempo, or native JIRA worklogs when the instance has no Tempo
+    tempo: createWorklogBackend(config.instance),
+    instanceName: config.instance.name,
+    schedule: config.instance.schedule,
+    worklogDefaults: config.instance.worklogDefaults,
+    timerRoundingMinutes: config.instance.timerRoundingMinutes,
+    repositories: config.instance.repositories,
+    timezone: config.instance.timezone,
+    workflowPaths: config.instance.workflowPaths,
+    baseBranch: config.baseBranch,
+  };
+}
+
+/**
+ * Resolve an optional date argument (YYYY-MM-DD or relative, like "yesterday"
+ * or "last friday") in the given time zone. Defaults to today.
+ */
+function resolveDate(date: string | undefined, timeZone: string): string {
+  return parseDateExpression(date ?? "today", todayIn(timeZone));
+}
+
+function toHours(seconds: number): number {
+  return Number((seconds / 3600).toFixed(2));
+}
+
+/**
+ * Resolve a date range from explicit from/to, a range expression in `date`
+ * ("last week", "this month"), or the day/week/month containing `date`.
+ * `to` without `from` is rejected rather than ignored.
+ */
+function resolveRange(
+  timeZone: string,
+  period: "day" | "week" | "month" | undefined,
+  date?: string,
+  from?: string,
+  to?: string
+): { from: string; to: string } {
+  const today = todayIn(timeZone);
+  if (to && !from) {
+    throw new Error("'to' requires 'from': give both ends of the range, or use period/date instead");
+  }
+  if (from) {
+    const rangeFrom = parseDateExpression(from, today);
+    return { from: rangeFrom, to: to ? parseDateExpression(to, today) : rangeFrom };
+  }
+  const expression = date ? parseRangeExpression(date, today) : null;
+  if (expression) return expression;
+  const reference = date ? parseDateExpression(date, today) : today;
+  if (period === "day") return { from: reference, to: reference };
+  return period === "month" ? monthRange(reference) : weekRange(reference);
+}
+
+/** Normalize "HH:MM" or "HH:MM:SS" to Tempo's HH:MM:SS format. */
+function normalizeTime(time: string): string {
+  return formatTime(parseTime(time));
+}
+
+/**
+ * Build worklog attribute values: instance defaults, overridden by explicit
+ * attributes, with the account stored under Tempo's ACCOUNT attribute.
+ * Native JIRA worklogs have no attributes, so there this is always empty.
+ */
+async function buildWorklogAttributes(
+  tempo: WorklogBackend,
+  defaults: WorklogDefaults,
+  account?: string,
+  attributes?: Record<string, string>,
+  base: TempoAttributeValue[] = []
+): Promise<TempoAttributeValue[]> {
+  if (!(tempo instanceof TempoClient)) return [];
+
+  const values: Record<string, string> = {
+    ...Object.fromEntries(base.map((a) => [a.key, a.value])),
+    ...defaults.attributes,
+    ...attributes,
+  };
+
+  const accountKey = account ?? defaults.account;
+  if (accountKey) {
+    const workAttributes = await tempo.getWorkAttributes();
+    const accountAttribute = workAttributes.find((a) => a.type === "ACCOUNT");
+    values[accountAttribute?.key ?? "_Account_"] = accountKey;
+  }
+
+  return Object.entries(values).map(([key, value]) => ({ key, value }));
+}
+
+type EstimateMode = "auto" | "set" | "leave";
+
+/**
+ * Remaining estimate fields to send with a worklog change that adds
+ * `deltaSeconds` to an issue. No remainingEstimateSeconds leaves it to the
+ * backend's default (no mode given, or the issue has no estimate to adjust).
+ * 'leave' also carries the current estimate for backends without a leave flag.
+ */
+async function resolveRemainingEstimate(
+  jira: JiraClient,
+  issueIdOrKey: string,
+  deltaSeconds: number,
+  mode?: EstimateMode,
+  estimateHours?: number
+): Promise<Pick<TempoWorklog, "remainingEstimateSeconds" | "keepRemainingEstimate">> {
+  if (!mode) return {};
+  if (mode === "set") {
+    if (estimateHours === undefined) {
+      throw new Error('remainingEstimateHours is required when remainingEstimate is "set"');
+    }
+    return { remainingEstimateSeconds: Math.round(estimateHours * 3600) };
+  }
+  const { timeTracking } = await jira.getIssue(issueIdOrKey);
+  const remaining = timeTracking.remainingEstimateSeconds ?? undefined;
+  if (mode === "leave") return { remainingEstimateSeconds: remaining, keepRemainingEstimate: true };
+  return { remainingEstimateSeconds: remaining === undefined ? undefined : Math.max(0, remaining - deltaSeconds) };
+}
+
+/** Opt-outs for the smart conversions of markdown text, shared by tools that write to JIRA */
+const markdownFormattingSchema = {
+  autoLink: z
+    .boolean()
+    .describe("Turn issue keys of this instance's projects and bare URLs into smart links (default: true)")
+    .optional(),
+  inlineNodes: z
+    .boolean()
+    .describe("Convert {status:TEXT|color}, {date:YYYY-MM-DD} and :emoji: shortcodes (default: true)")
+    .optional(),
+};
+
+// ---------------------------------------------------------------------------
+// Tool: jira_get_issue
+// ---------------------------------------------------------------------------
+
+// Fields of JiraIssue; other names given to jira_get_issue are JIRA field IDs
+const ISSUE_FIELD_NAMES: string[] = [
+  "id", "key", "summary", "status", "assignee", "issueType", "priority", "description", "timeTracking",
+  "labels", "components", "fixVersions", "parent", "subtasks", "links", "storyPoints", "customFields",
+] satisfies Array<keyof JiraIssue>;
+
+server.registerTool(
+  "jira_get_issue",
+  {
+    title: "Get JIRA Issue",
+    description:
+      "Fetch details of a JIRA issue (summary, status, assignee, type, priority, description, time tracking, " +
+      "labels, components, fix versions, parent, subtasks, links, story points and mapped custom fields). " +
+      "Automatically detects the JIRA instance from the working directory.",
+    inputSchema: {
+      issueKey: z
+        .string()
+        .describe("JIRA issue key, e.g. MRP-404. If omitted, extracted from the current git branch.")
+        .optional(),
+      fields: z
+        .array(z.string())
+        .describe(
+          "Only return these fields, e.g. [\"summary\", \"labels\", \"storyPoints\"]. id and key are always included. " +
+            "Other names are fetched as JIRA field IDs (e.g. \"duedate\", \"customfield_10042\") and returned raw."
+        )
+        .optional(),
+      format: z
+        .enum(["markdown", "text"])
+        .describe("Description format: markdown (default) or plain text")
+        .optional(),
+      cwd: z
+        .string()
+        .describe("Working directory of the repo (used to detect the JIRA instance)")
+        .optional(),
+    },
+  },
+  async ({ issueKey, fields, format, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const key = issueKey ?? getIssueKeyFromBranch(cwd);
+    if (!key) {
+      return { content: [{ type: "text", text: "Could not determine issue key. Provide it explicitly or ensure you are on a branch named with an issue key." }] };
+    }
+    const { jira, instanceName } = getClients(cwd);
+    const { extraFields, ...issue } = await jira.getIssue(
+      key,
+      format,
+      (fields ?? []).filter((f) => !ISSUE_FIELD_NAMES.includes(f))
+    );
+
+    let result: Record<string, unknown> = { ...issue };
+    if (fields) {
+      result = {
+        ...Object.fromEntries(
+          Object.entries(issue).filter(([name]) => name === "id" || name === "key" || fields.includes(name))
+        ),
+        ...extraFields,
+      };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ ...result, instance: instanceName }, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: jira_get_time_tracking
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_get_time_tracking",
+  {
+    title: "Get Issue Time Tracking",
+    description:
+      "Show an issue's original estimate, remaining estimate and time spent (in hours; null when not set).",
+    inputSchema: {
+      issueKey: z
+        .string()
+        .describe("JIRA issue key. If omitted, extracted from the current git branch.")
+        .optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ issueKey, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const key = issueKey ?? getIssueKeyFromBranch(cwd);
+    if (!key) {
+      return { content: [{ type: "text", text: "Could not determine issue key. Provide it explicitly or ensure you are on a branch named with an issue key." }] };
+    }
+    const { jira, instanceName } = getClients(cwd);
+    const { timeTracking } = await jira.getIssue(key);
+    const hoursOrNull = (seconds: number | null) => (seconds === null ? null : toHours(seconds));
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              instance: instanceName,
+              issueKey: key,
+              originalEstimateHours: hoursOrNull(timeTracking.originalEstimateSeconds),
+              remainingEstimateHours: hoursOrNull(timeTracking.remainingEstimateSeconds),
+              timeSpentHours: hoursOrNull(timeTracking.timeSpentSeconds),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: jira_get_transitions
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_get_transitions",
+  {
+    title: "Get Available Transitions",
+    description:
+      "List the available status transitions for a JIRA issue, with their target status and screen fields " +
+      "(required flag, allowed values).",
+    inputSchema: {
+      issueKey: z.string().describe("JIRA issue key"),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ issueKey, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira } = getClients(cwd);
+    const transitions = await jira.getTransitions(issueKey);
+    return {
+      content: [{ type: "text", text: JSON.stringify(transitions, null, 2) }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: jira_transition_issue
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_transition_issue",
+  {
+    title: "Transition JIRA Issue",
+    description:
+      "Move a JIRA issue to a new status, given either the target status name (e.g. 'In Review') or a " +
+      "transition ID from jira_get_transitions. Can set a resolution, other fields on the transition screen " +
+      "and add a comment. Reports missing required fields instead of failing.",
+    inputSchema: {
+      issueKey: z.string().describe("JIRA issue key"),
+      status: z.string().describe("Target status name (case-insensitive)").optional(),
+      transitionId: z.string().describe("Transition ID (from jira_get_transitions)").optional(),
+      resolution: z.string().describe("Resolution name, e.g. 'Done' or 'Won't Do'").optional(),
+      comment: z.string().describe("Comment to add with the transition (supports markdown)").optional(),
+      fields: z
+        .record(z.unknown())
+        .describe("Other transition screen fields by ID or name. Strings are matched against allowed values.")
+        .optional(),
+      ...markdownFormattingSchema,
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ issueKey, status, transitionId, resolution, comment, fields, autoLink, inlineNodes, cwd: cwdArg }) => {
+    if (!status && !transitionId) {
+      return { content: [{ type: "text", text: "Provide either status or transitionId." }] };
+    }
+    const cwd = cwdArg ?? process.cwd();
+    const { jira } = getClients(cwd);
+
+    const transitions = await jira.getTransitions(issueKey);
+    const transition = transitionId
+      ? transitions.find((t) => t.id === transitionId) ?? null
+      : findTransition(transitions, status!);
+    if (!transition) {
+      const available = transitions.map((t) => `- ${t.name} → ${t.to} (id ${t.id})`).join("\n");
+      return {
+        content: [
+          {
+            type: "text",
+            text: `No transition ${transitionId ? `with ID ${transitionId}` : `to "${status}"`} from the current status of ${issueKey}. Available:\n${available}`,
+          },
+        ],
+      };
+    }
+
+    const resolved = resolveTransitionFields(transition, {
+      ...fields,
+      ...(resolution ? { resolution } : {}),
+    });
+    if (resolved.problems.length > 0 || resolved.missing.length > 0) {
+      const lines = [`Cannot apply "${transition.name}" to ${issueKey}:`, ...resolved.problems.map((p) => `- ${p}`)];
+      if (resolved.missing.length > 0) {
+        lines.push("Missing required fields:", describeMissingFields(resolved.missing));
+      }
+      return { content: [{ type: "text", text: lines.join("\n") }] };
+    }
+
+    await jira.transitionIssue(issueKey, transition.id, resolved.fields, comment, { autoLink, inlineNodes });
+    return {
+      content: [{ type: "text", text: `Issue ${issueKey} transitioned to ${transition.to}.` }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: jira_move_to_status
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_move_to_status",
+  {
+    title: "Move JIRA Issue to Status",
+    description:
+      "Move an issue to a status that may be several transitions away. Plans the shortest path over the " +
+      "transitions seen so far for the project and issue type (plus the instance's configured workflowPaths), " +
+      "re-reading the available transitions after every step. With explore: true and no known path, it applies " +
+      "a transition into a status not visited yet (never a done-category one) and plans again from there, up to " +
+      "maxHops. Dry run by default: returns the plan only.",
+    inputSchema: {
+      issueKey: z.string().describe("JIRA issue key"),
+      status: z.string().describe("Target status name (case-insensitive)"),
+      maxHops: z.number().int().min(1).max(20).describe("Maximum number of transitions (default: 5)").optional(),
+      resolution: z.string().describe("Resolution for the final transition").optional(),
+      comment: z.string().describe("Comment to add with the final transition (supports markdown)").optional(),
+      fields: z
+        .record(z.unknown())
+        .describe("Screen fields for the final transition, by ID or name")
+        .optional(),
+      dryRun: z.boolean().describe("Only return the planned path (default: true)").optional(),
+      explore: z
+        .boolean()
+        .describe("Try unknown transitions when no known path exists (default: false; ignored in dry runs)")
+        .optional(),
+      ...markdownFormattingSchema,
+      cwd: z.string().optional(),
+    },
+  },
+  async ({
+    issueKey,
+    status,
+    maxHops,
+    resolution,
+    comment,
+    fields,
+    dryRun,
+    explore,
+    autoLink,
+    inlineNodes,
+    cwd: cwdArg,
+  }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, instanceName, workflowPaths } = getClients(cwd);
+    const hopLimit = maxHops ?? 5;
+    const exploring = explore ?? false;
+    const issue = await jira.getIssue(issueKey);
+    const project = issueKey.split("-")[0];
+    const sameStatus = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+    let current = issue.status;
+    const visited = [current];
+    const applied: Array<{ from: string; to: string; transition: string; explored?: boolean }> = [];
+    const report = (message: string, extra: Record<string, unknown> = {}) => ({
+      content: [
+        {
+          type: "text" as const,
+          text: JSON.stringify(
+            { instance: instanceName, issueKey, message, ...extra, applied, finalStatus: current },
+            null,
+            2
+          ),
+        },
+      ],
+    });
+
+    while (!sameStatus(current, status)) {
+      const transitions = await jira.getTransitions(issueKey);
+      recordTransitions(instanceName, project, issue.issueType, current, transitions.map((t) => t.to));
+
+      const graph = getKnownTransitions(instanceName, project, issue.issueType);
+      const path = findStatusPath(graph, current, status, hopLimit - applied.length, workflowPaths);
+      if (!path) {
+        const availableFromCurrent = transitions.map((t) => t.to);
+        if (applied.length >= hopLimit) {
+          return report(`Stopped after ${hopLimit} transitions without reaching "${status}".`, { availableFromCurrent });
+        }
+        const noPath = `No known path from "${current}" to "${status}" within ${hopLimit - applied.length} transitions.`;
+        if (dryRun ?? true) {
+          return report(
+            `${noPath} Run with dryRun: false and explore: true to explore the workflow from here, ` +
+              "or add a workflowPaths entry.",
+            { availableFromCurrent }
+          );
+        }
+        const step = exploring ? pickExplorationStep(transitions, visited) : null;
+        if (!step) {
+          return report(
+            `${noPath} ${exploring ? "Nothing left to explore. " : ""}` +
+              "Add a workflowPaths entry for this instance, or move the issue one step at a time.",
+            { availableFromCurrent }
+          );
+        }
+        await jira.transitionIssue(issueKey, step.id);
+        applied.push({ from: current, to: step.to, transition: step.name, explored: true });
+        current = step.to;
+        visited.push(current);
+        continue;
+      }
+      if (dryRun ?? true) {
+        return report(`Dry run: ${path.length - 1} transition(s) planned.`, { plan: path });
+      }
+
+      const transition = findTransition(transitions, path[1])!;
+      const isLast = path.length === 2;
+      const resolved = resolveTransitionFields(
+        transition,
+        isLast ? { ...fields, ...(resolution ? { resolution } : {}) } : {}
+      );
+      if (resolved.problems.length > 0 || resolved.missing.length > 0) {
+        return report(`Stopped before "${transition.name}" (${current} → ${transition.to}).`, {
+          problems: resolved.problems,
+          missingFields: describeMissingFields(resolved.missing),
+        });
+      }
+
+      await jira.transitionIssue(issueKey, transition.id, resolved.fields, isLast ? comment : undefined, {
+        autoLink,
+        inlineNodes,
+      });
+      applied.push({ from: current, to: transition.to, transition: transition.name });
+      current = transition.to;
+      visited.push(current);
+    }
+
+    return report(
+      applied.length === 0 ? `${issueKey} is already in "${current}".` : `${issueKey} moved to "${current}".`
+    );
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: jira_add_comment
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_add_comment",
+  {
+    title: "Add JIRA Comment",
+    description:
+      "Add a comment to a JIRA issue. Supports markdown formatting (headings, bold, italic, strikethrough, " +
+      "nested lists, - [ ] task lists, tables, code blocks, > [!NOTE] / > [!WARNING] callouts, <details> expands).",
+    inputSchema: {
+      issueKey: z.string().describe("JIRA issue key"),
+      comment: z.string().describe("Comment text (supports markdown)"),
+      ...markdownFormattingSchema,
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ issueKey, comment, autoLink, inlineNodes, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira } = getClients(cwd);
+    await jira.addComment(issueKey, comment, { autoLink, inlineNodes });
+    return {
+      content: [{ type: "text", text: `Comment added to ${issueKey}.` }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: jira_get_comments
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_get_comments",
+  {
+    title: "Get JIRA Comments",
+    description:
+      "Get all comments on a JIRA issue. Returns comments with author, body (markdown by default), and timestamps. " +
+      "Comments are ordered newest first.",
+    inputSchema: {
+      issueKey: z.string().describe("JIRA issue key (e.g. 'MRP-404')"),
+      format: z
+        .enum(["markdown", "text"])
+        .describe("Comment body format: markdown (default) or plain text")
+        .optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ issueKey, format, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, instanceName } = getClients(cwd);
+    const comments = await jira.getComments(issueKey, format);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ instance: instanceName, issueKey, total: comments.length, comments }, null, 2),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: jira_assign_to_me
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_assign_to_me",
+  {
+    title: "Assign JIRA Issue To Me",
+    description: "Assign a JIRA issue to the authenticated user.",
+    inputSchema: {
+      issueKey: z.string().describe("JIRA issue key"),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ issueKey, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira } = getClients(cwd);
+    const me = await jira.getMyself();
+    await jira.assignIssue(issueKey, me.accountId);
+    return {
+      content: [
+        { type: "text", text: `Assigned ${issueKey} to ${me.displayName} (${me.accountId}).` },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_log_time
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_log_time",
+  {
+    title: "Log Time in Tempo",
+    description:
+      "Log worked time on a JIRA issue via Tempo. Time is specified in hours (supports decimals like 1.5). " +
+      "The start time is placed in the earliest free slot of the workday. " +
+      "Refuses to create a worklog that overlaps existing ones unless allowOverlap is set, and refuses likely " +
+      "duplicates (same issue, description and similar duration that day) unless allowDuplicate is set. " +
+      "Pass an idempotencyKey when retrying so a repeated call returns the original worklog.",
+    inputSchema: {
+      issueKey: z.string().describe("JIRA issue key"),
+      hours: z.number().positive().describe("Hours to log (e.g. 2, 1.5, 0.5)"),
+      description: z.string().describe("Description of the work done").default(""),
+      date: z
+        .string()
+        .describe("Date for the worklog: YYYY-MM-DD or relative ('yesterday', 'last friday'). Defaults to today.")
+        .optional(),
+      startTime: z
+        .string()
+        .describe("Explicit start time (HH:MM or HH:MM:SS). Defaults to the earliest free slot.")
+        .optional(),
+      allowOverlap: z
+        .boolean()
+        .describe("Create the worklog even if it overlaps existing worklogs (default: false)")
+        .optional(),
+      account: z
+        .string()
+        .describe("Tempo account key to bill to (see tempo_list_accounts). Defaults to the instance's configured account.")
+        .optional(),
+      attributes: z
+        .record(z.string())
+        .describe("Work attribute values by key, e.g. { \"_Billable_\": \"true\" } (see tempo_list_work_attributes)")
+        .optional(),
+      allowDuplicate: z
+        .boolean()
+        .describe("Log even if an identical-looking worklog already exists that day (default: false)")
+        .optional(),
+      idempotencyKey: z
+        .string()
+        .describe("Client-chosen unique key for this booking. Repeated calls with the same key return the original worklog.")
+        .optional(),
+      remainingEstimate: z
+        .enum(["auto", "set", "leave"])
+        .describe(
+          "How to adjust the issue's remaining estimate: 'auto' reduces it by the logged time, " +
+            "'set' sets it to remainingEstimateHours, 'leave' keeps it. Defaults to the backend's behaviour."
+        )
+        .optional(),
+      remainingEstimateHours: z
+        .number()
+        .min(0)
+        .describe("New remaining estimate in hours (with remainingEstimate 'set')")
+        .optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({
+    issueKey,
+    hours,
+    description,
+    date,
+    startTime: startTimeArg,
+    allowOverlap,
+    account,
+    attributes,
+    allowDuplicate,
+    idempotencyKey,
+    remainingEstimate,
+    remainingEstimateHours,
+    cwd: cwdArg,
+  }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo, instanceName, schedule, worklogDefaults, timezone } = getClients(cwd);
+    const targetDate = resolveDate(date, timezone);
+    const timeSpentSeconds = Math.round(hours * 3600);
+
+    if (idempotencyKey) {
+      const record = getIdempotencyRecord(instanceName, idempotencyKey);
+      if (record) {
+        try {
+          const original = await tempo.getWorklog(record.worklogId);
+          return {
+            content: [
+              {
+                type: "text",
+                text:
+                  `Already logged with idempotency key '${idempotencyKey}': ${toHours(original.timeSpentSeconds)}h on ` +
+                  `${record.issueKey} (${original.startDate} at ${original.startTime}). Worklog ID: ${original.tempoWorklogId}`,
+              },
+            ],
+          };
+        } catch (err) {
+          // Only a deleted worklog may be booked again; on any other error the
+          // original may still exist, so keep the record and let the caller retry
+          if (!isNotFoundError(err)) throw err;
+          removeIdempotencyRecord(instanceName, idempotencyKey);
+        }
+      }
+    }
+
+    // Fetch user info, issue ID, and existing worklogs in parallel
+    const [me, issueId] = await Promise.all([
+      jira.getMyself(),
+      jira.getIssueId(issueKey),
+    ]);
+
+    // Get existing worklogs for the date to calculate next start time
+    const existingWorklogs = await tempo.getWorklogsForDate(me.accountId, targetDate);
+
+    const duplicates = TempoClient.findDuplicates(existingWorklogs.entries, issueId, timeSpentSeconds, description);
+    if (duplicates.length > 0 && !allowDuplicate) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                message: `Not logged: ${issueKey} already has a similar worklog on ${targetDate}. ` +
+                  "If this is really a separate booking, pass allowDuplicate: true.",
+                duplicates: duplicates.map((e) => ({
+                  worklogId: e.tempoWorklogId,
+                  issue: e.issueKey,
+                  startTime: e.startTime,
+                  hours: toHours(e.timeSpentSeconds),
+                  description: e.description,
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const startTime = startTimeArg
+      ? normalizeTime(startTimeArg)
+      : TempoClient.calculateNextStartTime(existingWorklogs.entries, schedule, timeSpentSeconds);
+
+    const conflicts = TempoClient.findOverlaps(existingWorklogs.entries, startTime, timeSpentSeconds);
+    if (conflicts.length > 0 && !allowOverlap) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                message: `Not logged: ${hours}h at ${startTime} on ${targetDate} overlaps existing worklogs. ` +
+                  "Pick another startTime or pass allowOverlap: true.",
+                conflicts: conflicts.map((e) => ({
+                  worklogId: e.tempoWorklogId,
+                  issue: e.issueKey,
+                  startTime: e.startTime,
+                  hours: toHours(e.timeSpentSeconds),
+                })),
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const worklog = await tempo.logTime({
+      issueId,
+      timeSpentSeconds,
+      description,
+      startDate: targetDate,
+      startTime,
+      authorAccountId: me.accountId,
+      attributes: await buildWorklogAttributes(tempo, worklogDefaults, account, attributes),
+      ...(await resolveRemainingEstimate(jira, issueKey, timeSpentSeconds, remainingEstimate, remainingEstimateHours)),
+    });
+    recordChange({
+      instance: instanceName,
+      action: "create",
+      worklogId: worklog.tempoWorklogId,
+      after: toSnapshot({ ...worklog, issueId, issueKey, authorAccountId: me.accountId }),
+    });
+    if (idempotencyKey) {
+      saveIdempotencyRecord(instanceName, idempotencyKey, worklog.tempoWorklogId, issueKey);
+    }
+    const loggedHours = (worklog.timeSpentSeconds / 3600).toFixed(2);
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Logged ${loggedHours}h on ${issueKey} (${worklog.startDate} at ${startTime}). Worklog ID: ${worklog.tempoWorklogId}`,
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_get_today_worklogs
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_get_today_worklogs",
+  {
+    title: "Get Today's Worklogs",
+    description:
+      "Get all time logged today via Tempo. Shows total hours and remaining to reach the required hours " +
+      "from the Tempo user schedule (0 on holidays and non-working days). " +
+      "Useful for the 'smart distribute' workflow (see tempo_distribute_remaining).",
+    inputSchema: {
+      date: z
+        .string()
+        .describe("Date: YYYY-MM-DD or relative ('yesterday', 'last friday'). Defaults to today.")
+        .optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ date, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo, schedule, timezone } = getClients(cwd);
+    const me = await jira.getMyself();
+    const targetDate = resolveDate(date, timezone);
+    const worklogs = await tempo.getWorklogsForDate(me.accountId, targetDate);
+    const required = await getRequiredHours(tempo, schedule, targetDate, targetDate);
+    const day = required.days[targetDate] ?? { requiredHours: 0, nonWorkingDay: true, holiday: null };
+    const totalHours = worklogs.totalSeconds / 3600;
+    const remaining = Math.max(0, day.requiredHours - totalHours);
+
+    const summary = {
+      date: targetDate,
+      totalHoursLogged: Number(totalHours.toFixed(2)),
+      targetHours: day.requiredHours,
+      remainingToTarget: Number(remaining.toFixed(2)),
+      nonWorkingDay: day.nonWorkingDay,
+      holiday: day.holiday,
+      targetSource: required.source,
+      entries: worklogs.entries.map((e) => ({
+        worklogId: e.tempoWorklogId,
+        issue: e.issueKey,
+        startTime: e.startTime,
+        hours: Number((e.timeSpentSeconds / 3600).toFixed(2)),
+        description: e.description,
+      })),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_get_timesheet
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_get_timesheet",
+  {
+    title: "Get Timesheet",
+    description:
+      "Get logged time for a date range (default: current week). Returns per-day totals, per-issue totals " +
+      "and the gap to the required hours from the Tempo user schedule. Holidays and days with zero " +
+      "required hours are flagged as non-working.",
+    inputSchema: {
+      period: z
+        .enum(["week", "month"])
+        .describe("Week (Mon–Sun) or month containing 'date'. Ignored if from/to are given. Default: week")
+        .optional(),
+      date: z.string().describe("Reference date for 'period' (YYYY-MM-DD or relative), or a range like 'last week' / 'this month'. Defaults to today.").optional(),
+      from: z.string().describe("Range start: YYYY-MM-DD or relative").optional(),
+      to: z.string().describe("Range end (inclusive): YYYY-MM-DD or relative").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ period, date, from, to, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo, instanceName, schedule, timezone } = getClients(cwd);
+
+    const { from: rangeFrom, to: rangeTo } = resolveRange(timezone, period, date, from, to);
+
+    const me = await jira.getMyself();
+    const [worklogs, required] = await Promise.all([
+      tempo.getWorklogsForRange(me.accountId, rangeFrom, rangeTo),
+      getRequiredHours(tempo, schedule, rangeFrom, rangeTo),
+    ]);
+
+    const secondsByDay: Record<string, number> = {};
+    const byIssue: Record<string, { seconds: number; entries: number }> = {};
+    for (const e of worklogs.entries) {
+      secondsByDay[e.startDate] = (secondsByDay[e.startDate] ?? 0) + e.timeSpentSeconds;
+      const issue = (byIssue[e.issueKey] ??= { seconds: 0, entries: 0 });
+      issue.seconds += e.timeSpentSeconds;
+      issue.entries++;
+    }
+
+    let expectedHours = 0;
+    const days = eachDay(rangeFrom, rangeTo).map((day) => {
+      const requiredDay = required.days[day] ?? { requiredHours: 0, nonWorkingDay: true, holiday: null };
+      const expected = requiredDay.requiredHours;
+      const hours = toHours(secondsByDay[day] ?? 0);
+      expectedHours += expected;
+      return {
+        date: day,
+        weekday: weekdayName(day),
+        hours,
+        expectedHours: expected,
+        gapHours: Number(Math.max(0, expected - hours).toFixed(2)),
+        nonWorkingDay: requiredDay.nonWorkingDay,
+        holiday: requiredDay.holiday,
+      };
+    });
+
+    const totalHours = toHours(worklogs.totalSeconds);
+    const summary = {
+      instance: instanceName,
+      from: rangeFrom,
+      to: rangeTo,
+      totalHours,
+      expectedHours: Number(expectedHours.toFixed(2)),
+      gapHours: Number(Math.max(0, expectedHours - totalHours).toFixed(2)),
+      expectedSource: required.source,
+      days,
+      issues: Object.entries(byIssue)
+        .map(([issue, v]) => ({ issue, hours: toHours(v.seconds), entries: v.entries }))
+        .sort((a, b) => b.hours - a.hours),
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_bulk_log
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_bulk_log",
+  {
+    title: "Bulk Log Time",
+    description:
+      "Log many worklogs at once from CSV (with a header row) or a JSON array of " +
+      "{issueKey, date, hours, description, startTime?}. All issue keys are resolved up front and rows are " +
+      "validated against existing worklogs and the required hours per day. " +
+      "By default runs as a dry run; pass dryRun: false to create the worklogs. Returns a per-row report.",
+    inputSchema: {
+      data: z.string().describe("CSV text (header: issueKey,date,hours,description,startTime) or JSON array"),
+      format: z.enum(["csv", "json"]).describe("Input format (default: auto-detect)").optional(),
+      dryRun: z.boolean().describe("Only validate and plan, do not log anything (default: true)").optional(),
+      allowOverlap: z
+        .boolean()
+        .describe("Allow rows with explicit start times that overlap other worklogs (default: false)")
+        .optional(),
+      account: z.string().describe("Tempo account key for all rows (default: instance default)").optional(),
+      attributes: z.record(z.string()).describe("Work attribute values for all rows").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ data, format, dryRun, allowOverlap, account, attributes, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo, instanceName, schedule, worklogDefaults, timezone } = getClients(cwd);
+    const preview = dryRun ?? true;
+
+    let parsed;
+    try {
+      parsed = parseBulkRows(data, todayIn(timezone), format);
+    } catch (err: any) {
+      return { content: [{ type: "text", text: `Could not parse input: ${err.message}` }] };
+    }
+    const { rows } = parsed;
+
+    const report: Array<Record<string, any>> = parsed.errors.map((e) => ({
+      row: e.row,
+      status: "error",
+      errors: [e.message],
+    }));
+
+    if (rows.length === 0) {
+      return {
+        content: [
+          { type: "text", text: JSON.stringify({ instance: instanceName, dryRun: preview, rows: report }, null, 2) },
+        ],
+      };
+    }
+
+    // Resolve all issue IDs up front
+    const issueKeys = [...new Set(rows.map((r) => r.issueKey))];
+    const issueIds: Record<string, number> = {};
+    const issueErrors: Record<string, string> = {};
+    await Promise.all(
+      issueKeys.map(async (key) => {
+        try {
+          issueIds[key] = await jira.getIssueId(key);
+        } catch {
+          issueErrors[key] = `issue ${key} not found or not accessible`;
+        }
+      })
+    );
+
+    const dates = rows.map((r) => r.date).sort();
+    const rangeFrom = dates[0];
+    const rangeTo = dates[dates.length - 1];
+    const me = await jira.getMyself();
+    const [existing, required] = await Promise.all([
+      tempo.getWorklogsForRange(me.accountId, rangeFrom, rangeTo),
+      getRequiredHours(tempo, schedule, rangeFrom, rangeTo),
+    ]);
+
+    const entriesByDay: Record<string, TempoWorklogEntry[]> = {};
+    for (const e of existing.entries) {
+      (entriesByDay[e.startDate] ??= []).push(e);
+    }
+    const existingSecondsByDay: Record<string, number> = {};
+    for (const [day, entries] of Object.entries(entriesByDay)) {
+      existingSecondsByDay[day] = entries.reduce((sum, e) => sum + e.timeSpentSeconds, 0);
+    }
+    const importSecondsByDay: Record<string, number> = {};
+
+    // Plan every row: start time, overlaps, totals against the required hours
+    const planned = rows.map((row) => {
+      const errors: string[] = [];
+      const warnings: string[] = [];
+      const seconds = Math.round(row.hours * 3600);
+      const dayEntries = (entriesByDay[row.date] ??= []);
+
+      if (issueErrors[row.issueKey]) errors.push(issueErrors[row.issueKey]);
+
+      const startTime = row.startTime ?? TempoClient.calculateNextStartTime(dayEntries, schedule, seconds);
+      const conflicts = TempoClient.findOverlaps(dayEntries, startTime, seconds);
+      if (conflicts.length > 0) {
+        const message = `overlaps ${conflicts.map((c) => `${c.issueKey} at ${c.startTime}`).join(", ")}`;
+        if (allowOverlap) warnings.push(message);
+        else errors.push(message);
+      }
+
+      const requiredDay = required.days[row.date];
+      if (requiredDay?.nonWorkingDay) {
+        warnings.push(requiredDay.holiday ? `${row.date} is a holiday (${requiredDay.holiday})` : `${row.date} is a non-working day`);
+      }
+
+      if (errors.length === 0) {
+        importSecondsByDay[row.date] = (importSecondsByDay[row.date] ?? 0) + seconds;
+        const dayTotal = (existingSecondsByDay[row.date] ?? 0) + importSecondsByDay[row.date];
+        if (requiredDay && !requiredDay.nonWorkingDay && dayTotal > requiredDay.requiredHours * 3600) {
+          warnings.push(`${row.date} total ${toHours(dayTotal)}h exceeds required ${requiredDay.requiredHours}h`);
+        }
+        // Reserve the slot so later rows on the same day are placed after it
+        dayEntries.push({
+          tempoWorklogId: 0,
+          issueId: issueIds[row.issueKey],
+          issueKey: row.issueKey,
+          authorAccountId: me.accountId,
+          timeSpentSeconds: seconds,
+          description: row.description,
+          startDate: row.date,
+          startTime,
+          attributes: [],
+        });
+      }
+
+      return { row, seconds, startTime, errors, warnings };
+    });
+
+    const worklogAttributes = preview
+      ? []
+      : await buildWorklogAttributes(tempo, worklogDefaults, account, attributes);
+
+    for (const item of planned) {
+      const entry: Record<string, any> = {
+        row: item.row.row,
+        issueKey: item.row.issueKey,
+        date: item.row.date,
+        hours: item.row.hours,
+        startTime: item.startTime,
+        status: item.errors.length > 0 ? "error" : preview ? "valid" : "pending",
+      };
+      if (item.errors.length > 0) entry.errors = item.errors;
+      if (item.warnings.length > 0) entry.warnings = item.warnings;
+
+      if (!preview && item.errors.length === 0) {
+        try {
+          const issueId = issueIds[item.row.issueKey];
+          const worklog = await tempo.logTime({
+            issueId,
+            timeSpentSeconds: item.seconds,
+            description: item.row.description,
+            startDate: item.row.date,
+            startTime: item.startTime,
+            authorAccountId: me.accountId,
+            attributes: worklogAttributes,
+          });
+          recordChange({
+            instance: instanceName,
+            action: "create",
+            worklogId: worklog.tempoWorklogId,
+            after: toSnapshot({ ...worklog, issueId, issueKey: item.row.issueKey, authorAccountId: me.accountId }),
+          });
+          entry.status = "logged";
+          entry.worklogId = worklog.tempoWorklogId;
+        } catch (err: any) {
+          entry.status = "failed";
+          entry.errors = [err.message];
+        }
+      }
+
+      report.push(entry);
+    }
+    report.sort((a, b) => a.row - b.row);
+
+    const days = eachDay(rangeFrom, rangeTo)
+      .filter((day) => importSecondsByDay[day] !== undefined)
+      .map((day) => ({
+        date: day,
+        existingHours: toHours(existingSecondsByDay[day] ?? 0),
+        importHours: toHours(importSecondsByDay[day]),
+        requiredHours: required.days[day]?.requiredHours ?? 0,
+      }));
+
+    const count = (status: string) => report.filter((r) => r.status === status).length;
+    const result = {
+      instance: instanceName,
+      dryRun: preview,
+      summary: preview
+        ? { total: report.length, valid: count("valid"), errors: count("error") }
+        : { total: report.length, logged: count("logged"), failed: count("failed"), skipped: count("error") },
+      days,
+      rows: report,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_export_timesheet
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_export_timesheet",
+  {
+    title: "Export Timesheet",
+    description:
+      "Export worklogs for a date range (default: current month) as CSV, a Markdown table grouped by issue or epic, " +
+      "or an iCalendar (.ics) file with one event per worklog. Writes to outputPath if given, otherwise returns the content.",
+    inputSchema: {
+      format: z.enum(["csv", "markdown", "ics"]).describe("Export format"),
+      period: z
+        .enum(["week", "month"])
+        .describe("Week (Mon–Sun) or month containing 'date'. Ignored if from/to are given. Default: month")
+        .optional(),
+      date: z.string().describe("Reference date for 'period' (YYYY-MM-DD or relative), or a range like 'last week' / 'this month'. Defaults to today.").optional(),
+      from: z.string().describe("Range start: YYYY-MM-DD or relative").optional(),
+      to: z.string().describe("Range end (inclusive): YYYY-MM-DD or relative").optional(),
+      groupBy: z.enum(["issue", "epic"]).describe("Markdown grouping (default: issue)").optional(),
+      outputPath: z
+        .string()
+        .describe("File to write (relative paths are resolved against cwd). If omitted, content is returned inline.")
+        .optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ format, period, date, from, to, groupBy, outputPath, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo, instanceName, timezone } = getClients(cwd);
+    const range = resolveRange(timezone, period ?? "month", date, from, to);
+
+    const me = await jira.getMyself();
+    const worklogs = await tempo.getWorklogsForRange(me.accountId, range.from, range.to);
+    const issueKeys = [...new Set(worklogs.entries.map((e) => e.issueKey))].filter((k) => k !== "UNKNOWN");
+    const issues = issueKeys.length > 0 ? await jira.getIssueContext(issueKeys) : {};
+
+    const content = exportTimesheet(format, worklogs.entries, {
+      instance: instanceName,
+      from: range.from,
+      to: range.to,
+      issues,
+      groupBy,
+    });
+
+    if (outputPath) {
+      const path = resolve(cwd, outputPath);
+      writeFileSync(path, content, "utf-8");
+      return {
+        content: [
+          {
+            type: "text",
+            text:
+              `Exported ${worklogs.entries.length} worklogs (${toHours(worklogs.totalSeconds)}h, ` +
+              `${range.from} to ${range.to}) as ${format} to ${path}.`,
+          },
+        ],
+      };
+    }
+
+    return {
+      content: [{ type: "text", text: content }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_all_instances_overview
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_all_instances_overview",
+  {
+    title: "Time Overview (All Instances)",
+    description:
+      "Get logged time across ALL configured Tempo instances for a day or range (default: today). " +
+      "Shows per-instance totals, required hours and per-day hours, plus grand totals across instances. " +
+      "Instances that fail (e.g. authentication) are reported with an error.",
+    inputSchema: {
+      period: z
+        .enum(["day", "week", "month"])
+        .describe("Day, week (Mon–Sun) or month containing 'date'. Ignored if from/to are given. Default: day")
+        .optional(),
+      date: z.string().describe("Reference date for 'period' (YYYY-MM-DD or relative), or a range like 'last week' / 'this month'. Defaults to today.").optional(),
+      from: z.string().describe("Range start: YYYY-MM-DD or relative").optional(),
+      to: z.string().describe("Range end (inclusive): YYYY-MM-DD or relative").optional(),
+    },
+  },
+  async ({ period, date, from, to }) => {
+    const range = resolveRange(getDefaultTimezone(), period ?? "day", date, from, to);
+    const instances = getAllInstances();
+
+    // Query all instances in parallel
+    const queries = instances.map(async (inst) => {
+      const jira = new JiraClient(inst.jira);
+      const tempo = createWorklogBackend(inst);
+      try {
+        const me = await jira.getMyself();
+        const [worklogs, required] = await Promise.all([
+          tempo.getWorklogsForRange(me.accountId, range.from, range.to),
+          getRequiredHours(tempo, inst.schedule, range.from, range.to),
+        ]);
+        return { name: inst.name, worklogs, required };
+      } catch (err: any) {
+        return { name: inst.name, error: err.message };
+      }
+    });
+
+    const responses = await Promise.all(queries);
+
+    const results: Record<string, any> = {};
+    const grandByDay: Record<string, number> = {};
+    let grandTotalSeconds = 0;
+
+    for (const resp of responses) {
+      if ("error" in resp) {
+        results[resp.name] = { error: resp.error };
+        continue;
+      }
+
+      const secondsByDay: Record<string, number> = {};
+      for (const e of resp.worklogs.entries) {
+        secondsByDay[e.startDate] = (secondsByDay[e.startDate] ?? 0) + e.timeSpentSeconds;
+        grandByDay[e.startDate] = (grandByDay[e.startDate] ?? 0) + e.timeSpentSeconds;
+      }
+      grandTotalSeconds += resp.worklogs.totalSeconds;
+
+      const requiredHours = Object.values(resp.required.days).reduce((sum, d) => sum + d.requiredHours, 0);
+      results[resp.name] = {
+        totalHours: toHours(resp.worklogs.totalSeconds),
+        requiredHours: Number(requiredHours.toFixed(2)),
+        entries: resp.worklogs.entries.length,
+        byDay: Object.fromEntries(
+          Object.entries(secondsByDay)
+            .sort(([a], [b]) => a.localeCompare(b))
+            .map(([day, seconds]) => [day, toHours(seconds)])
+        ),
+      };
+    }
+
+    const overview = {
+      from: range.from,
+      to: range.to,
+      grandTotalHours: toHours(grandTotalSeconds),
+      grandTotalByDay: eachDay(range.from, range.to).map((day) => ({
+        date: day,
+        weekday: weekdayName(day),
+        hours: toHours(grandByDay[day] ?? 0),
+      })),
+      byInstance: results,
+    };
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(overview, null, 2) }],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_missing_time
+// ---------------------------------------------------------------------------
+
+/**
+ * Find working days with less time logged than required on one instance.
+ * Looks back from `endDate` until `workingDays` days with required hours are found.
+ */
+async function findMissingTime(
+  inst: InstanceConfig,
+  endDate: string,
+  workingDays: number,
+  suggestIssues: boolean
+) {
+  const jira = new JiraClient(inst.jira);
+  const tempo = createWorklogBackend(inst);
+  const me = await jira.getMyself();
+
+  // Enough calendar days to cover N working days plus some holidays
+  const windowStart = addDays(endDate, -(Math.ceil((workingDays * 7) / 5) + 14));
+  const required = await getRequiredHours(tempo, inst.schedule, windowStart, endDate);
+  const days = eachDay(windowStart, endDate)
+    .filter((day) => (required.days[day]?.requiredHours ?? 0) > 0)
+    .slice(-workingDays);
+
+  if (days.length === 0) {
+    return { from: endDate, to: endDate, missingDays: [], totalShortfallHours: 0 };
+  }
+
+  const worklogs = await tempo.getWorklogsForRange(me.accountId, days[0], endDate);
+  const missingDays = findShortfalls(days, required.days, worklogs.entries);
+
+  const result: Record<string, any> = {
+    from: days[0],
+    to: endDate,
+    requiredSource: required.source,
+    missingDays,
+    totalShortfallHours: Number(missingDays.reduce((sum, d) => sum + d.shortfallHours, 0).toFixed(2)),
+  };
+
+  if (suggestIssues && missingDays.length > 0) {
+    const recent = await jira.searchIssues(
+      "assignee = currentUser() AND updated >= -14d ORDER BY updated DESC",
+      15
+    );
+    result.suggestedIssues = recent.issues
+      .filter((issue) => !isResolvedStatus(issue.status))
+      .slice(0, 10)
+      .map((issue) => ({ key: issue.key, summary: issue.summary, status: issue.status }));
+  }
+
+  return result;
+}
+
+server.registerTool(
+  "tempo_missing_time",
+  {
+    title: "Find Missing Time",
+    description:
+      "List working days in the past N working days where less time is logged than required " +
+      "(from the Tempo user schedule), with the shortfall per day and recently updated assigned issues to book against. " +
+      "Checks the current instance, or all configured instances.",
+    inputSchema: {
+      workingDays: z.number().int().positive().describe("Number of working days to check (default: 10)").optional(),
+      includeToday: z.boolean().describe("Include today, which may still be in progress (default: false)").optional(),
+      allInstances: z.boolean().describe("Check every configured instance (default: false)").optional(),
+      suggestIssues: z.boolean().describe("Suggest issues to book against (default: true)").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ workingDays, includeToday, allInstances, suggestIssues, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const count = workingDays ?? 10;
+    const instances = allInstances ? getAllInstances() : [resolveInstance(cwd).instance];
+
+    const results: Record<string, any> = {};
+    const responses = await Promise.all(
+      instances.map(async (inst) => {
+        const today = todayIn(inst.timezone);
+        const endDate = includeToday ? today : addDays(today, -1);
+        try {
+          return { name: inst.name, result: await findMissingTime(inst, endDate, count, suggestIssues ?? true) };
+        } catch (err: any) {
+          return { name: inst.name, error: err.message };
+        }
+      })
+    );
+
+    let totalShortfall = 0;
+    for (const resp of responses) {
+      if ("error" in resp) {
+        results[resp.name] = { error: resp.error };
+      } else {
+        results[resp.name] = resp.result;
+        totalShortfall += resp.result.totalShortfallHours;
+      }
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            { workingDays: count, totalShortfallHours: Number(totalShortfall.toFixed(2)), byInstance: results },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_list_teams
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_list_teams",
+  {
+    title: "List Tempo Teams",
+    description: "List Tempo teams on this instance, optionally with their members.",
+    inputSchema: {
+      includeMembers: z.boolean().describe("Include team members (default: false)").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ includeMembers, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo: backend, instanceName } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Teams");
+    const teams = await tempo.getTeams();
+
+    let result: any[] = teams;
+    if (includeMembers) {
+      const members = await Promise.all(teams.map((t) => tempo.getTeamMembers(t.id)));
+      const names = await jira.getUserNames([...new Set(members.flat().map((m) => m.accountId))]);
+      result = teams.map((t, i) => ({
+        ...t,
+        members: members[i].map((m) => ({ ...m, name: names[m.accountId] ?? null })),
+      }));
+    }
+
+    return {
+      content: [
+        { type: "text", text: JSON.stringify({ instance: instanceName, total: teams.length, teams: result }, null, 2) },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_team_timesheet
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_team_timesheet",
+  {
+    title: "Team Timesheet",
+    description:
+      "Show hours logged per team member per day against each member's required hours (Tempo user schedule) " +
+      "for a week, month or date range (default: current week). Optionally broken down per project.",
+    inputSchema: {
+      team: z.string().describe("Team ID or team name (see tempo_list_teams)"),
+      period: z
+        .enum(["week", "month"])
+        .describe("Week (Mon–Sun) or month containing 'date'. Ignored if from/to are given. Default: week")
+        .optional(),
+      date: z
+        .string()
+        .describe("Reference date for 'period' (YYYY-MM-DD or relative), or a range like 'last week' / 'this month'. Defaults to today.")
+        .optional(),
+      from: z.string().describe("Range start: YYYY-MM-DD or relative").optional(),
+      to: z.string().describe("Range end (inclusive): YYYY-MM-DD or relative").optional(),
+      byProject: z.boolean().describe("Add a per-project breakdown for each member (default: false)").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ team, period, date, from, to, byProject, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo: backend, instanceName, schedule, timezone } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Team timesheets");
+    const range = resolveRange(timezone, period, date, from, to);
+
+    const teams = await tempo.getTeams();
+    const target = teams.find((t) => String(t.id) === team || t.name.toLowerCase() === team.toLowerCase());
+    if (!target) {
+      return {
+        content: [
+          { type: "text", text: `Team '${team}' not found. Available: ${teams.map((t) => `${t.name} (${t.id})`).join(", ")}` },
+        ],
+      };
+    }
+
+    const [members, worklogs] = await Promise.all([
+      tempo.getTeamMembers(target.id),
+      tempo.getWorklogsForTeam(target.id, range.from, range.to),
+    ]);
+    const accountIds = members.map((m) => m.accountId);
+    const [names, requiredByMember] = await Promise.all([
+      jira.getUserNames(accountIds),
+      Promise.all(accountIds.map((id) => getRequiredHours(tempo, schedule, range.from, range.to, id))),
+    ]);
+
+    const days = eachDay(range.from, range.to);
+    const result = members.map((member, i) => {
+      const entries = worklogs.entries.filter((e) => e.authorAccountId === member.accountId);
+      const required = requiredByMember[i];
+
+      const secondsByDay: Record<string, number> = {};
+      const secondsByProject: Record<string, number> = {};
+      for (const e of entries) {
+        secondsByDay[e.startDate] = (secondsByDay[e.startDate] ?? 0) + e.timeSpentSeconds;
+        const project = e.issueKey.split("-")[0];
+        secondsByProject[project] = (secondsByProject[project] ?? 0) + e.timeSpentSeconds;
+      }
+
+      const totalSeconds = entries.reduce((sum, e) => sum + e.timeSpentSeconds, 0);
+      const requiredHours = days.reduce((sum, day) => sum + (required.days[day]?.requiredHours ?? 0), 0);
+      const summary: Record<string, any> = {
+        accountId: member.accountId,
+        name: names[member.accountId] ?? null,
+        totalHours: toHours(totalSeconds),
+        requiredHours: Number(requiredHours.toFixed(2)),
+        gapHours: Number(Math.max(0, requiredHours - totalSeconds / 3600).toFixed(2)),
+        days: days.map((day) => ({
+          date: day,
+          hours: toHours(secondsByDay[day] ?? 0),
+          requiredHours: required.days[day]?.requiredHours ?? 0,
+        })),
+      };
+      if (byProject) {
+        summary.projects = Object.entries(secondsByProject)
+          .map(([project, seconds]) => ({ project, hours: toHours(seconds) }))
+          .sort((a, b) => b.hours - a.hours);
+      }
+      return summary;
+    });
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              instance: instanceName,
+              team: { id: target.id, name: target.name },
+              from: range.from,
+              to: range.to,
+              totalHours: toHours(worklogs.totalSeconds),
+              members: result,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_approval_status
+// ---------------------------------------------------------------------------
+
+function formatApproval(approval: TempoApproval, names: Record<string, string> = {}) {
+  return {
+    user: names[approval.userAccountId] ?? approval.userAccountId,
+    accountId: approval.userAccountId,
+    from: approval.from,
+    to: approval.to,
+    status: approval.status,
+    statusComment: approval.statusComment,
+    requiredHours: toHours(approval.requiredSeconds),
+    loggedHours: toHours(approval.timeSpentSeconds),
+    reviewer: approval.reviewerAccountId
+      ? names[approval.reviewerAccountId] ?? approval.reviewerAccountId
+      : null,
+  };
+}
+
+server.registerTool(
+  "tempo_approval_status",
+  {
+    title: "Timesheet Approval Status",
+    description:
+      "Get the Tempo timesheet approval status (open, in review, approved, rejected) for a period " +
+      "(default: current month). Use the instance's approval period boundaries.",
+    inputSchema: {
+      period: z.enum(["week", "month"]).describe("Approval period containing 'date' (default: month)").optional(),
+      date: z
+        .string()
+        .describe("Reference date (YYYY-MM-DD or relative), or a range like 'last month'. Defaults to today.")
+        .optional(),
+      from: z.string().describe("Period start: YYYY-MM-DD or relative").optional(),
+      to: z.string().describe("Period end (inclusive): YYYY-MM-DD or relative").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ period, date, from, to, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo: backend, instanceName, timezone } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Timesheet approvals");
+    const range = resolveRange(timezone, period ?? "month", date, from, to);
+    const me = await jira.getMyself();
+    const approval = await tempo.getApprovalStatus(me.accountId, range.from, range.to);
+    const names = approval.reviewerAccountId ? await jira.getUserNames([approval.reviewerAccountId]) : {};
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            { instance: instanceName, ...formatApproval(approval, { ...names, [me.accountId]: me.displayName }) },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_submit_timesheet
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_submit_timesheet",
+  {
+    title: "Submit Timesheet",
+    description:
+      "Submit your Tempo timesheet for approval for a period (default: current month). " +
+      "Refuses if any working day in the period has less time logged than required, unless force is set.",
+    inputSchema: {
+      period: z.enum(["week", "month"]).describe("Approval period containing 'date' (default: month)").optional(),
+      date: z
+        .string()
+        .describe("Reference date (YYYY-MM-DD or relative), or a range like 'last month'. Defaults to today.")
+        .optional(),
+      from: z.string().describe("Period start: YYYY-MM-DD or relative").optional(),
+      to: z.string().describe("Period end (inclusive): YYYY-MM-DD or relative").optional(),
+      reviewerAccountId: z.string().describe("Account ID of the reviewer (default: Tempo's configured reviewer)").optional(),
+      comment: z.string().describe("Comment for the reviewer").optional(),
+      force: z.boolean().describe("Submit even if some working days are under-booked (default: false)").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ period, date, from, to, reviewerAccountId, comment, force, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo: backend, instanceName, schedule, timezone } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Timesheet approvals");
+    const range = resolveRange(timezone, period ?? "month", date, from, to);
+    const me = await jira.getMyself();
+
+    const [worklogs, required] = await Promise.all([
+      tempo.getWorklogsForRange(me.accountId, range.from, range.to),
+      getRequiredHours(tempo, schedule, range.from, range.to),
+    ]);
+    const underBooked = findShortfalls(eachDay(range.from, range.to), required.days, worklogs.entries);
+
+    if (underBooked.length > 0 && !force) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                message:
+                  `Not submitted: ${underBooked.length} working day(s) between ${range.from} and ${range.to} ` +
+                  "have less time logged than required. Book the missing time or pass force: true.",
+                underBookedDays: underBooked,
+              },
+              null,
+              2
+            ),
+          },
+        ],
+      };
+    }
+
+    const approval = await tempo.submitTimesheet(me.accountId, range.from, range.to, reviewerAccountId, comment);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              instance: instanceName,
+              message: `Timesheet ${range.from} to ${range.to} submitted.`,
+              ...formatApproval(approval, { [me.accountId]: me.displayName }),
+              underBookedDays: underBooked.length > 0 ? underBooked : undefined,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_pending_approvals
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_pending_approvals",
+  {
+    title: "Pending Timesheet Approvals",
+    description: "List timesheets submitted to you for approval (approvers only).",
+    inputSchema: {
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo: backend, instanceName } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Timesheet approvals");
+    const pending = await tempo.getPendingApprovals();
+    const names = await jira.getUserNames([...new Set(pending.map((a) => a.userAccountId))]);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            { instance: instanceName, total: pending.length, approvals: pending.map((a) => formatApproval(a, names)) },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_review_timesheet
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_review_timesheet",
+  {
+    title: "Approve or Reject Timesheet",
+    description:
+      "Approve or reject a submitted Tempo timesheet (approvers only). " +
+      "Use tempo_pending_approvals to find the account ID and period.",
+    inputSchema: {
+      accountId: z.string().describe("Account ID of the timesheet owner"),
+      from: z.string().describe("Period start: YYYY-MM-DD or relative"),
+      to: z.string().describe("Period end (inclusive): YYYY-MM-DD or relative"),
+      action: z.enum(["approve", "reject"]).describe("Approve or reject the timesheet"),
+      comment: z.string().describe("Comment (recommended when rejecting)").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ accountId, from, to, action, comment, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo: backend, instanceName, timezone } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Timesheet approvals");
+    const range = resolveRange(timezone, undefined, undefined, from, to);
+    const approval = await tempo.reviewTimesheet(accountId, range.from, range.to, action, comment);
+    const names = await jira.getUserNames([accountId]);
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              instance: instanceName,
+              message: `Timesheet of ${names[accountId] ?? accountId} (${range.from} to ${range.to}) ${action === "approve" ? "approved" : "rejected"}.`,
+              ...formatApproval(approval, names),
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
+// ---------------------------------------------------------------------------
+// Tool: tempo_distribute_remaining
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "tempo_distribute_remaining",
+  {
+    title: "Distribute Remaining Hours",
+    description:
+      "Split the hours still missing for a day across the issues worked on that day. " +
+      "Issues are found from your commits in the instance's repositories (and the cwd repo), " +
+      "from JIRA issues you updated that day, and from caller-supplied weights. " +
+      "By default only returns the plan (dryRun); pass dryRun: false to book the worklogs.",
+    inputSchema: {
+      date: z.string().describe("Date: YYYY-MM-DD or relative ('yesterday', 'last friday'). Defaults to today.").optional(),
+      weights: z
+        .record(z.number().nonnegative())
+        .describe("Explicit weights per issue key, e.g. { \"MRP-1\": 2, \"MRP-7\": 1 }. Override computed weights.")
+        .optional(),
+      useCommits: z.boolean().describe("Weight issues by commit count that day (default: true)").optional(),
+      useJiraActivity: z.boolean().describe("Include JIRA issues you updated that day (default: true)").optional(),
+      excludeIssues: z.array(z.string()).describe("Issue keys to leave out").optional(),
+      roundingMinutes: z.number().positive().describe("Granularity of each worklog in minutes (default: 15)").optional(),
+      dryRun: z.boolean().describe("Only return the plan without logging anything (default: true)").optional(),
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ date, weights, useCommits, useJiraActivity, excludeIssues, roundingMinutes, dryRun, cwd: cwdArg }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const { jira, tempo, instanceName, schedule, worklogDefaults, repositories, timezone } = getClients(cwd);
+    const targetDate = resolveDate(date, timezone);
+    const preview = dryRun ?? true;
+
+    const me = await jira.getMyself();
+    const [worklogs, required] = await Promise.all([
+      tempo.getWorklogsForDate(me.accountId, targetDate),
+      getRequiredHours(tempo, schedule, targetDate, targetDate),
+    ]);
+    const requiredHours = required.days[targetDate]?.requiredHours ?? 0;
+    const remainingSeconds = Math.max(0, Math.round(requiredHours * 3600) - worklogs.totalSeconds);
+
+    // Collect candidate issues and their weights
+    const computed: Record<string, number> = {};
+    const commitMessages: Record<string, string[]> = {};
+    const sources: Record<string, string[]> = {};
+    const addSource = (key: string, source: string) => {
+      sources[key] ??= [];
+      if (!sources[key].includes(source)) sources[key].push(source);
+    };
+
+    if (useCommits ?? true) {
+      for (const repo of new Set([cwd, ...repositories])) {
+        const author = getGitUserEmail(repo) ?? undefined;
+        for (const commit of getCommitsForDate(targetDate, timezone, repo, author)) {
+          for (const key of extractIssueKeys(`${commit.message} ${commit.refs}`)) {
+            computed[key] = (computed[key] ?? 0) + 1;
+            (commitMessages[key] ??= []).push(commit.message);
+            addSource(key, "commits");
+          }
+        }
+      }
+    }
+
+    if (useJiraActivity ?? true) {
+      const nextDay = addDays(targetDate, 1);
+      let activity;
+      try {
+        activity = await jira.searchIssues(
+          `issue in updatedBy(currentUser(), "${targetDate}", "${nextDay}")`,
+          50
+        );
+      } catch {
+        activity = await jira.searchIssues(
+          `assignee = currentUser() AND updated >= "${targetDate}" AND updated < "${nextDay}"`,
+          50
+        );
+      }
+      for (const issue of activity.issues) {
+        computed[issue.key] = Math.max(computed[issue.key] ?? 0, 1);
+        addSource(issue.key, "jira");
+      }
+    }
+
+    const finalWeights: Record<string, number> = { ...computed };
+    for (const [key, weight] of Object.entries(weights ?? {})) {
+      finalWeights[key] = weight;
+      addSource(key, "weights");
+    }
+    for (const key of excludeIssues ?? []) {
+      delete finalWeights[key];
+    }
 
-// ---------------------------------------------------------------------------
-// Helper: resolve clients from cwd
-// ---------------------------------------------------------------------------
+    const granularity = (roundingMinutes ?? 15) * 60;
+    const allocations = distributeSeconds(finalWeights, remainingSeconds, granularity);
 
-function getClients(cwd: string) {
-  const config = resolveInstance(cwd);
-  return {
-    jira: new JiraClient(config.instance.jira),
-    tempo: new TempoClient(config.instance.tempo),
-    instanceName: config.instance.name,
-    baseBranch: config.baseBranch,
-  };
-}
+    const plan = allocations.map((a) => ({
+      issueKey: a.issueKey,
+      hours: toHours(a.seconds),
+      weight: a.weight,
+      sources: sources[a.issueKey] ?? [],
+      description: [...new Set(commitMessages[a.issueKey] ?? [])].join("; "),
+    }));
 
-function today(): string {
-  return new Date().toISOString().slice(0, 10);
-}
+    const result: Record<string, any> = {
+      instance: instanceName,
+      date: targetDate,
+      requiredHours,
+      loggedHours: toHours(worklogs.totalSeconds),
+      remainingHours: toHours(remainingSeconds),
+      dryRun: preview,
+      plan,
+    };
+
+    if (remainingSeconds === 0) {
+      result.message = "Nothing to distribute: the day is already fully booked (or a non-working day).";
+    } else if (plan.length === 0) {
+      result.message = "No issues found to distribute to. Pass weights explicitly.";
+    }
+
+    if (!preview && plan.length > 0) {
+      const entries = [...worklogs.entries];
+      const attributes = await buildWorklogAttributes(tempo, worklogDefaults);
+      const booked: any[] = [];
+      for (const item of allocations) {
+        const planned = plan.find((p) => p.issueKey === item.issueKey)!;
+        try {
+          const issueId = await jira.getIssueId(item.issueKey);
+          const startTime = TempoClient.calculateNextStartTime(entries, schedule, item.seconds);
+          const worklog = await tempo.logTime({
+            issueId,
+            timeSpentSeconds: item.seconds,
+            description: planned.description,
+            startDate: targetDate,
+            startTime,
+            authorAccountId: me.accountId,
+            attributes,
+          });
+          entries.push(worklog);
+          recordChange({
+            instance: instanceName,
+            action: "create",
+            worklogId: worklog.tempoWorklogId,
+            after: toSnapshot({ ...worklog, issueId, issueKey: item.issueKey, authorAccountId: me.accountId }),
+          });
+          booked.push({ issueKey: item.issueKey, hours: planned.hours, startTime, worklogId: worklog.tempoWorklogId });
+        } catch (err: any) {
+          booked.push({ issueKey: item.issueKey, hours: planned.hours, error: err.message });
+        }
+      }
+      result.booked = booked;
+    }
+
+    return {
+      content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
 
 // ---------------------------------------------------------------------------
-// Tool: jira_get_issue
+// Tool: tempo_list_work_attributes
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "jira_get_issue",
+  "tempo_list_work_attributes",
   {
-    title: "Get JIRA Issue",
+    title: "List Tempo Work Attributes",
     description:
-      "Fetch details of a JIRA issue (summary, status, assignee, type, priority, description). " +
-      "Automatically detects the JIRA instance from the working directory.",
+      "List the work attributes configured in Tempo for this instance (key, name, type, required, allowed values). " +
+      "Use the keys with the 'attributes' parameter of tempo_log_time.",
     inputSchema: {
-      issueKey: z
-        .string()
-        .describe("JIRA issue key, e.g. MRP-404. If omitted, extracted from the current git branch.")
-        .optional(),
-      cwd: z
-        .string()
-        .describe("Working directory of the repo (used to detect the JIRA instance)")
-        .optional(),
+      cwd: z.string().optional(),
     },
   },
-  async ({ issueKey, cwd: cwdArg }) => {
+  async ({ cwd: cwdArg }) => {
     const cwd = cwdArg ?? process.cwd();
-    const key = issueKey ?? getIssueKeyFromBranch(cwd);
-    if (!key) {
-      return { content: [{ type: "text", text: "Could not determine issue key. Provide it explicitly or ensure you are on a branch named with an issue key." }] };
-    }
-    const { jira, instanceName } = getClients(cwd);
-    const issue = await jira.getIssue(key);
+    const { tempo: backend, instanceName, worklogDefaults } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Work attributes");
+    const attributes = await tempo.getWorkAttributes();
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify({ ...issue, instance: instanceName }, null, 2),
+          text: JSON.stringify({ instance: instanceName, defaults: worklogDefaults, attributes }, null, 2),
         },
       ],
     };
@@ -88,105 +2013,212 @@ server.registerTool(
 );
 
 // ---------------------------------------------------------------------------
-// Tool: jira_get_transitions
+// Tool: tempo_list_accounts
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "jira_get_transitions",
+  "tempo_list_accounts",
   {
-    title: "Get Available Transitions",
-    description: "List the available status transitions for a JIRA issue.",
+    title: "List Tempo Accounts",
+    description:
+      "List Tempo billing accounts for this instance. Use the account key with the 'account' parameter of tempo_log_time.",
     inputSchema: {
-      issueKey: z.string().describe("JIRA issue key"),
+      includeClosed: z.boolean().describe("Include closed/archived accounts (default: false)").optional(),
       cwd: z.string().optional(),
     },
   },
-  async ({ issueKey, cwd: cwdArg }) => {
+  async ({ includeClosed, cwd: cwdArg }) => {
     const cwd = cwdArg ?? process.cwd();
-    const { jira } = getClients(cwd);
-    const transitions = await jira.getTransitions(issueKey);
+    const { tempo: backend, instanceName } = getClients(cwd);
+    const tempo = requireTempo(backend, instanceName, "Billing accounts");
+    const accounts = await tempo.getAccounts(!includeClosed);
     return {
-      content: [{ type: "text", text: JSON.stringify(transitions, null, 2) }],
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify({ instance: instanceName, total: accounts.length, accounts }, null, 2),
+        },
+      ],
     };
   }
 );
 
 // ---------------------------------------------------------------------------
-// Tool: jira_transition_issue
+// Tool: tempo_update_worklog
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "jira_transition_issue",
+  "tempo_update_worklog",
   {
-    title: "Transition JIRA Issue",
+    title: "Update Tempo Worklog",
     description:
-      "Move a JIRA issue to a new status. Use jira_get_transitions first to get valid transition IDs.",
+      "Edit an existing Tempo worklog (hours, description, date, start time or issue). " +
+      "Only the given fields change. The previous state is journaled and can be restored with tempo_undo_last.",
     inputSchema: {
-      issueKey: z.string().describe("JIRA issue key"),
-      transitionId: z.string().describe("Transition ID (from jira_get_transitions)"),
+      worklogId: z.number().describe("Tempo worklog ID (from tempo_get_today_worklogs or tempo_log_time)"),
+      hours: z.number().positive().describe("New duration in hours").optional(),
+      description: z.string().describe("New description").optional(),
+      date: z.string().describe("New date: YYYY-MM-DD or relative").optional(),
+      startTime: z.string().describe("New start time (HH:MM or HH:MM:SS)").optional(),
+      issueKey: z.string().describe("Move the worklog to another JIRA issue").optional(),
+      account: z.string().describe("New Tempo account key").optional(),
+      attributes: z
+        .record(z.string())
+        .describe("Work attribute values to set, merged over the existing ones")
+        .optional(),
+      remainingEstimate: z
+        .enum(["auto", "set", "leave"])
+        .describe(
+          "How to adjust the issue's remaining estimate: 'auto' applies the change in logged time, " +
+            "'set' sets it to remainingEstimateHours, 'leave' keeps it. Defaults to the backend's behaviour."
+        )
+        .optional(),
+      remainingEstimateHours: z
+        .number()
+        .min(0)
+        .describe("New remaining estimate in hours (with remainingEstimate 'set')")
+        .optional(),
       cwd: z.string().optional(),
     },
   },
-  async ({ issueKey, transitionId, cwd: cwdArg }) => {
+  async ({
+    worklogId,
+    hours,
+    description,
+    date,
+    startTime,
+    issueKey,
+    account,
+    attributes,
+    remainingEstimate,
+    remainingEstimateHours,
+    cwd: cwdArg,
+  }) => {
     const cwd = cwdArg ?? process.cwd();
-    const { jira } = getClients(cwd);
-    await jira.transitionIssue(issueKey, transitionId);
+    const { jira, tempo, instanceName, timezone } = getClients(cwd);
+
+    const current = await tempo.getWorklog(worklogId);
+    const before = toSnapshot(current);
+    const issueId = issueKey ? await jira.getIssueId(issueKey) : before.issueId;
+    const timeSpentSeconds = hours !== undefined ? Math.round(hours * 3600) : before.timeSpentSeconds;
+    // Moving to another issue adds the full duration there
+    const deltaSeconds = issueId === before.issueId ? timeSpentSeconds - before.timeSpentSeconds : timeSpentSeconds;
+
+    const updated = await tempo.updateWorklog(worklogId, {
+      issueId,
+      timeSpentSeconds,
+      description: description ?? before.description,
+      startDate: date ? resolveDate(date, timezone) : before.startDate,
+      startTime: startTime ? normalizeTime(startTime) : before.startTime,
+      authorAccountId: before.authorAccountId,
+      // Existing values are kept; instance defaults only apply to new worklogs
+      attributes: await buildWorklogAttributes(
+        tempo,
+        { attributes: {} },
+        account,
+        attributes,
+        before.attributes
+      ),
+      ...(await resolveRemainingEstimate(jira, String(issueId), deltaSeconds, remainingEstimate, remainingEstimateHours)),
+    });
+    recordChange({
+      instance: instanceName,
+      action: "update",
+      worklogId,
+      before,
+      after: toSnapshot(updated),
+    });
+
     return {
-      content: [{ type: "text", text: `Issue ${issueKey} transitioned successfully.` }],
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              message: `Worklog ${worklogId} updated.`,
+              before: { ...before, hours: Number((before.timeSpentSeconds / 3600).toFixed(2)) },
+              after: { ...toSnapshot(updated), hours: Number((updated.timeSpentSeconds / 3600).toFixed(2)) },
+            },
+            null,
+            2
+          ),
+        },
+      ],
     };
   }
 );
 
 // ---------------------------------------------------------------------------
-// Tool: jira_add_comment
+// Tool: tempo_delete_worklog
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "jira_add_comment",
+  "tempo_delete_worklog",
   {
-    title: "Add JIRA Comment",
-    description: "Add a comment to a JIRA issue. Supports markdown formatting (headings, bold, italic, lists, tables, code blocks).",
+    title: "Delete Tempo Worklog",
+    description:
+      "Delete a Tempo worklog. The deleted worklog is journaled and can be recreated with tempo_undo_last.",
     inputSchema: {
-      issueKey: z.string().describe("JIRA issue key"),
-      comment: z.string().describe("Comment text (supports markdown)"),
+      worklogId: z.number().describe("Tempo worklog ID"),
       cwd: z.string().optional(),
     },
   },
-  async ({ issueKey, comment, cwd: cwdArg }) => {
+  async ({ worklogId, cwd: cwdArg }) => {
     const cwd = cwdArg ?? process.cwd();
-    const { jira } = getClients(cwd);
-    await jira.addComment(issueKey, comment);
+    const { tempo, instanceName } = getClients(cwd);
+
+    const current = await tempo.getWorklog(worklogId);
+    await tempo.deleteWorklog(worklogId);
+    recordChange({
+      instance: instanceName,
+      action: "delete",
+      worklogId,
+      before: toSnapshot(current),
+    });
+
+    const hours = (current.timeSpentSeconds / 3600).toFixed(2);
     return {
-      content: [{ type: "text", text: `Comment added to ${issueKey}.` }],
+      content: [
+        {
+          type: "text",
+          text: `Deleted worklog ${worklogId} (${hours}h on ${current.issueKey}, ${current.startDate} at ${current.startTime}).`,
+        },
+      ],
     };
   }
 );
 
 // ---------------------------------------------------------------------------
-// Tool: jira_get_comments
+// Tool: tempo_undo_last
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "jira_get_comments",
+  "tempo_undo_last",
   {
-    title: "Get JIRA Comments",
+    title: "Undo Last Tempo Change",
     description:
-      "Get all comments on a JIRA issue. Returns comments with author, body (plain text), and timestamps. " +
-      "Comments are ordered newest first.",
+      "Revert the most recent worklog change made through this server on the current instance: " +
+      "a logged worklog is deleted, an update is rolled back, a deleted worklog is recreated.",
     inputSchema: {
-      issueKey: z.string().describe("JIRA issue key (e.g. 'MRP-404')"),
       cwd: z.string().optional(),
     },
   },
-  async ({ issueKey, cwd: cwdArg }) => {
+  async ({ cwd: cwdArg }) => {
     const cwd = cwdArg ?? process.cwd();
-    const { jira, instanceName } = getClients(cwd);
-    const comments = await jira.getComments(issueKey);
+    const { tempo, instanceName } = getClients(cwd);
+
+    const undone = await undoLastChange(instanceName, tempo);
+    if (!undone) {
+      return {
+        content: [{ type: "text", text: `Nothing to undo for instance ${instanceName}.` }],
+      };
+    }
+
     return {
       content: [
         {
           type: "text",
-          text: JSON.stringify({ instance: instanceName, issueKey, total: comments.length, comments }, null, 2),
+          text: `Undid ${undone.entry.action} from ${undone.entry.timestamp}. ${undone.result}`,
         },
       ],
     };
@@ -194,82 +2226,132 @@ server.registerTool(
 );
 
 // ---------------------------------------------------------------------------
-// Tool: jira_assign_to_me
+// Tool: tempo_start_timer
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "jira_assign_to_me",
+  "tempo_start_timer",
   {
-    title: "Assign JIRA Issue To Me",
-    description: "Assign a JIRA issue to the authenticated user.",
+    title: "Start Timer",
+    description:
+      "Start a work timer on a JIRA issue. The timer is stored locally and survives server restarts. " +
+      "Use tempo_stop_timer to book the elapsed time in Tempo.",
     inputSchema: {
-      issueKey: z.string().describe("JIRA issue key"),
+      issueKey: z
+        .string()
+        .describe("JIRA issue key. If omitted, extracted from the current git branch.")
+        .optional(),
+      description: z.string().describe("Description of the work (can also be given on stop)").default(""),
       cwd: z.string().optional(),
     },
   },
-  async ({ issueKey, cwd: cwdArg }) => {
+  async ({ issueKey, description, cwd: cwdArg }) => {
     const cwd = cwdArg ?? process.cwd();
-    const { jira } = getClients(cwd);
-    const me = await jira.getMyself();
-    await jira.assignIssue(issueKey, me.accountId);
+    const key = issueKey ?? getIssueKeyFromBranch(cwd);
+    if (!key) {
+      return { content: [{ type: "text", text: "Could not determine issue key. Provide it explicitly or ensure you are on a branch named with an issue key." }] };
+    }
+    const { instanceName, timezone } = getClients(cwd);
+    const timer = startTimer(instanceName, key, description);
     return {
       content: [
-        { type: "text", text: `Assigned ${issueKey} to ${me.displayName} (${me.accountId}).` },
+        {
+          type: "text",
+          text: `Timer started on ${key} (${instanceName}) at ${toZonedTime(new Date(timer.startedAt), timezone)}.`,
+        },
       ],
     };
   }
 );
 
 // ---------------------------------------------------------------------------
-// Tool: tempo_log_time
+// Tool: tempo_stop_timer
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "tempo_log_time",
+  "tempo_stop_timer",
   {
-    title: "Log Time in Tempo",
+    title: "Stop Timer",
     description:
-      "Log worked time on a JIRA issue via Tempo. Time is specified in hours (supports decimals like 1.5).",
+      "Stop a running timer and log the elapsed time in Tempo, starting at the real start time. " +
+      "Elapsed time is rounded to the instance's timer granularity (default: 15 minutes).",
     inputSchema: {
-      issueKey: z.string().describe("JIRA issue key"),
-      hours: z.number().positive().describe("Hours to log (e.g. 2, 1.5, 0.5)"),
-      description: z.string().describe("Description of the work done").default(""),
-      date: z
+      issueKey: z
         .string()
-        .describe("Date for the worklog in YYYY-MM-DD format. Defaults to today.")
+        .describe("JIRA issue key of the timer. Optional if only one timer is running on this instance.")
         .optional(),
+      description: z.string().describe("Description of the work done (overrides the one given on start)").optional(),
+      roundingMinutes: z.number().positive().describe("Override the rounding granularity in minutes").optional(),
+      discard: z.boolean().describe("Stop the timer without logging any time (default: false)").optional(),
       cwd: z.string().optional(),
     },
   },
-  async ({ issueKey, hours, description, date, cwd: cwdArg }) => {
+  async ({ issueKey, description, roundingMinutes, discard, cwd: cwdArg }) => {
     const cwd = cwdArg ?? process.cwd();
-    const { jira, tempo } = getClients(cwd);
-    const targetDate = date ?? today();
+    const { jira, tempo, instanceName, worklogDefaults, timerRoundingMinutes, timezone } = getClients(cwd);
 
-    // Fetch user info, issue ID, and existing worklogs in parallel
-    const [me, issueId] = await Promise.all([
-      jira.getMyself(),
-      jira.getIssueId(issueKey),
-    ]);
+    let timer = issueKey ? getTimer(instanceName, issueKey) : null;
+    if (!issueKey) {
+      const running = listTimers(instanceName);
+      if (running.length > 1) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Several timers are running on ${instanceName} (${running.map((t) => t.issueKey).join(", ")}). Specify issueKey.`,
+            },
+          ],
+        };
+      }
+      timer = running[0] ?? null;
+    }
+    if (!timer) {
+      return {
+        content: [{ type: "text", text: `No running timer${issueKey ? ` for ${issueKey}` : ""} on ${instanceName}.` }],
+      };
+    }
 
-    // Get existing worklogs for the date to calculate next start time
-    const existingWorklogs = await tempo.getWorklogsForDate(me.accountId, targetDate);
-    const startTime = TempoClient.calculateNextStartTime(existingWorklogs.entries);
+    const started = new Date(timer.startedAt);
+    const elapsedSeconds = Math.round((Date.now() - started.getTime()) / 1000);
+
+    if (discard) {
+      removeTimer(instanceName, timer.issueKey);
+      return {
+        content: [
+          { type: "text", text: `Timer on ${timer.issueKey} discarded (${toHours(elapsedSeconds)}h not logged).` },
+        ],
+      };
+    }
+
+    const timeSpentSeconds = roundElapsed(elapsedSeconds, roundingMinutes ?? timerRoundingMinutes);
+    const [me, issueId] = await Promise.all([jira.getMyself(), jira.getIssueId(timer.issueKey)]);
+    const startDate = toZonedDate(started, timezone);
+    const startTime = toZonedTime(started, timezone);
 
     const worklog = await tempo.logTime({
       issueId,
-      timeSpentSeconds: Math.round(hours * 3600),
-      description,
-      startDate: targetDate,
+      timeSpentSeconds,
+      description: description ?? timer.description,
+      startDate,
       startTime,
       authorAccountId: me.accountId,
+      attributes: await buildWorklogAttributes(tempo, worklogDefaults),
     });
-    const loggedHours = (worklog.timeSpentSeconds / 3600).toFixed(2);
+    removeTimer(instanceName, timer.issueKey);
+    recordChange({
+      instance: instanceName,
+      action: "create",
+      worklogId: worklog.tempoWorklogId,
+      after: toSnapshot({ ...worklog, issueId, issueKey: timer.issueKey, authorAccountId: me.accountId }),
+    });
+
     return {
       content: [
         {
           type: "text",
-          text: `Logged ${loggedHours}h on ${issueKey} (${worklog.startDate} at ${startTime}). Tempo worklog ID: ${worklog.tempoWorklogId}`,
+          text:
+            `Timer stopped. Logged ${toHours(timeSpentSeconds)}h on ${timer.issueKey} (${startDate} at ${startTime}, ` +
+            `elapsed ${toHours(elapsedSeconds)}h). Worklog ID: ${worklog.tempoWorklogId}`,
         },
       ],
     };
@@ -277,46 +2359,32 @@ server.registerTool(
 );
 
 // ---------------------------------------------------------------------------
-// Tool: tempo_get_today_worklogs
+// Tool: tempo_timer_status
 // ---------------------------------------------------------------------------
 
 server.registerTool(
-  "tempo_get_today_worklogs",
+  "tempo_timer_status",
   {
-    title: "Get Today's Worklogs",
-    description:
-      "Get all time logged today via Tempo. Shows total hours and remaining to reach 8h. " +
-      "Useful for the 'smart distribute' workflow.",
-    inputSchema: {
-      date: z
-        .string()
-        .describe("Date in YYYY-MM-DD format. Defaults to today.")
-        .optional(),
-      cwd: z.string().optional(),
-    },
+    title: "Timer Status",
+    description: "List running timers across all instances with their elapsed time.",
+    inputSchema: {},
   },
-  async ({ date, cwd: cwdArg }) => {
-    const cwd = cwdArg ?? process.cwd();
-    const { jira, tempo } = getClients(cwd);
-    const me = await jira.getMyself();
-    const targetDate = date ?? today();
-    const worklogs = await tempo.getWorklogsForDate(me.accountId, targetDate);
-    const totalHours = worklogs.totalSeconds / 3600;
-    const remaining = Math.max(0, 8 - totalHours);
-
-    const summary = {
-      date: targetDate,
-      totalHoursLogged: Number(totalHours.toFixed(2)),
-      remainingToReach8h: Number(remaining.toFixed(2)),
-      entries: worklogs.entries.map((e) => ({
-        issue: e.issueKey,
-        hours: Number((e.timeSpentSeconds / 3600).toFixed(2)),
-        description: e.description,
-      })),
-    };
-
+  async () => {
+    const now = Date.now();
+    const timeZones = Object.fromEntries(getAllInstances().map((i) => [i.name, i.timezone]));
+    const timers = listTimers().map((t) => {
+      const started = new Date(t.startedAt);
+      const timeZone = timeZones[t.instance] ?? getDefaultTimezone();
+      return {
+        instance: t.instance,
+        issueKey: t.issueKey,
+        description: t.description,
+        startedAt: `${toZonedDate(started, timeZone)} ${toZonedTime(started, timeZone)}`,
+        elapsedHours: toHours(Math.round((now - started.getTime()) / 1000)),
+      };
+    });
     return {
-      content: [{ type: "text", text: JSON.stringify(summary, null, 2) }],
+      content: [{ type: "text", text: JSON.stringify({ running: timers.length, timers }, null, 2) }],
     };
   }
 );
@@ -439,6 +2507,8 @@ server.registerTool(
               resolvedInstance: resolved.instance.name,
               jiraUrl: resolved.instance.jira.baseUrl,
               baseBranch: resolved.baseBranch,
+              schedule: resolved.instance.schedule,
+              timezone: resolved.instance.timezone,
               allConfiguredInstances: allInstances,
             },
             null,
@@ -597,10 +2667,11 @@ server.registerTool(
       description: z.string().describe("Issue description (supports markdown formatting)").optional(),
       priority: z.string().describe("Priority (e.g. 'High', 'Medium', 'Low')").optional(),
       assignToMe: z.boolean().describe("Assign the issue to yourself").optional(),
+      ...markdownFormattingSchema,
       cwd: z.string().optional(),
     },
   },
-  async ({ project, summary, issueType, description, priority, assignToMe, cwd: cwdArg }) => {
+  async ({ project, summary, issueType, description, priority, assignToMe, autoLink, inlineNodes, cwd: cwdArg }) => {
     const cwd = cwdArg ?? process.cwd();
     const { jira, instanceName } = getClients(cwd);
 
@@ -617,7 +2688,7 @@ server.registerTool(
       description,
       priority,
       assigneeAccountId,
-    });
+    }, { autoLink, inlineNodes });
 
     return {
       content: [
@@ -639,6 +2710,79 @@ server.registerTool(
   }
 );
 
+// ---------------------------------------------------------------------------
+// Tool: jira_update_issue
+// ---------------------------------------------------------------------------
+
+server.registerTool(
+  "jira_update_issue",
+  {
+    title: "Update JIRA Issue",
+    description:
+      "Update fields of a JIRA issue. Labels and components are added or removed, not replaced. " +
+      "Fails without changing anything if a field is not editable on the issue.",
+    inputSchema: {
+      issueKey: z
+        .string()
+        .describe("JIRA issue key. If omitted, extracted from the current git branch.")
+        .optional(),
+      summary: z.string().describe("New summary").optional(),
+      description: z.string().describe("New description (supports markdown formatting)").optional(),
+      priority: z.string().describe("New priority (e.g. 'High', 'Medium', 'Low')").optional(),
+      addLabels: z.array(z.string()).describe("Labels to add").optional(),
+      removeLabels: z.array(z.string()).describe("Labels to remove").optional(),
+      addComponents: z.array(z.string()).describe("Component names to add").optional(),
+      removeComponents: z.array(z.string()).describe("Component names to remove").optional(),
+      storyPoints: z
+        .number()
+        .min(0)
+        .describe("Story points (requires a storyPoints custom field mapping for the instance)")
+        .optional(),
+      dueDate: z
+        .string()
+        .nullable()
+        .describe("Due date: YYYY-MM-DD or relative ('next friday'). null clears it.")
+        .optional(),
+      ...markdownFormattingSchema,
+      cwd: z.string().optional(),
+    },
+  },
+  async ({ issueKey, dueDate, autoLink, inlineNodes, cwd: cwdArg, ...changes }) => {
+    const cwd = cwdArg ?? process.cwd();
+    const key = issueKey ?? getIssueKeyFromBranch(cwd);
+    if (!key) {
+      return { content: [{ type: "text", text: "Could not determine issue key. Provide it explicitly or ensure you are on a branch named with an issue key." }] };
+    }
+    const { jira, instanceName, timezone } = getClients(cwd);
+    const changed = await jira.updateIssue(
+      key,
+      { ...changes, dueDate: typeof dueDate === "string" ? resolveDate(dueDate, timezone) : dueDate },
+      { autoLink, inlineNodes }
+    );
+    if (changed.length === 0) {
+      return { content: [{ type: "text", text: "Nothing to update: no fields given." }] };
+    }
+
+    return {
+      content: [
+        {
+          type: "text",
+          text: JSON.stringify(
+            {
+              instance: instanceName,
+              key,
+              updatedFields: changed,
+              message: `Issue ${key} updated.`,
+            },
+            null,
+            2
+          ),
+        },
+      ],
+    };
+  }
+);
+
 // ---------------------------------------------------------------------------
 // Tool: jira_get_sprint
 // ---------------------------------------------------------------------------
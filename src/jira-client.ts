@@ -3,12 +3,15 @@
  * Docs: https://developer.atlassian.com/cloud/jira/platform/rest/v3/
  */
 
-import { markdownToAdf } from "./markdown-to-adf.js";
+import { markdownToAdf, AdfDocument, MarkdownToAdfOptions } from "./markdown-to-adf.js";
+import { AdfTextFormat, adfToPlainText, renderAdf } from "./adf-to-markdown.js";
 
 export interface JiraConfig {
   baseUrl: string; // e.g. "markenmehrwert.atlassian.net"
   email: string;
   apiToken: string;
+  /** Custom field IDs by name, e.g. { storyPoints: "customfield_10016" } */
+  customFields?: Record<string, string>;
 }
 
 export interface JiraIssue {
@@ -20,11 +23,57 @@ export interface JiraIssue {
   issueType: string;
   priority: string;
   description: string | null;
+  timeTracking: JiraTimeTracking;
+  labels: string[];
+  components: string[];
+  fixVersions: string[];
+  parent: { key: string; summary: string } | null;
+  subtasks: JiraIssueRef[];
+  links: JiraIssueLink[];
+  /** From the "storyPoints" custom field mapping, null when unmapped or unset */
+  storyPoints: number | null;
+  /** Other mapped custom fields by name */
+  customFields: Record<string, unknown>;
+  /** Raw values of the extra field IDs requested from getIssue, rich text rendered */
+  extraFields: Record<string, unknown>;
+}
+
+export interface JiraIssueRef {
+  key: string;
+  summary: string;
+  status: string;
+}
+
+export interface JiraIssueLink extends JiraIssueRef {
+  /** Relationship as seen from this issue, e.g. "blocks" or "is blocked by" */
+  type: string;
+}
+
+/** Estimates and logged time of an issue, null when not set */
+export interface JiraTimeTracking {
+  originalEstimateSeconds: number | null;
+  remainingEstimateSeconds: number | null;
+  timeSpentSeconds: number | null;
 }
 
 export interface JiraTransition {
   id: string;
   name: string;
+  /** Target status name */
+  to: string;
+  /** Status category of the target: "new", "indeterminate" or "done" */
+  toCategory: string;
+  /** Fields on the transition screen */
+  fields: JiraTransitionField[];
+}
+
+export interface JiraTransitionField {
+  id: string;
+  name: string;
+  required: boolean;
+  hasDefaultValue: boolean;
+  /** For select-like fields (resolution, options, versions) */
+  allowedValues?: Array<{ id: string; name: string }>;
 }
 
 export interface JiraIssueListItem {
@@ -40,6 +89,8 @@ export interface JiraIssueListItem {
 export interface JiraSearchResult {
   total: number;
   issues: JiraIssueListItem[];
+  /** Token for the next page, absent on the last page */
+  nextPageToken?: string;
 }
 
 export interface CreateIssueParams {
@@ -51,6 +102,20 @@ export interface CreateIssueParams {
   assigneeAccountId?: string;
 }
 
+/** Fields to change; labels and components are added/removed, not replaced */
+export interface UpdateIssueParams {
+  summary?: string;
+  description?: string; // markdown
+  priority?: string;
+  addLabels?: string[];
+  removeLabels?: string[];
+  addComponents?: string[];
+  removeComponents?: string[];
+  storyPoints?: number;
+  /** YYYY-MM-DD; null clears it */
+  dueDate?: string | null;
+}
+
 export interface JiraComment {
   id: string;
   author: string;
@@ -68,12 +133,45 @@ export interface JiraSprint {
   goal: string | null;
 }
 
+export interface JiraWorklog {
+  id: number;
+  issueId: number;
+  authorAccountId: string;
+  started: string; // e.g. "2024-05-06T09:00:00.000+0200"
+  timeSpentSeconds: number;
+  comment: string;
+}
+
+export interface JiraWorklogInput {
+  started: string; // e.g. "2024-05-06T09:00:00.000+0200"
+  timeSpentSeconds: number;
+  comment: string; // markdown
+  /** New remaining estimate of the issue; omitted reduces it by the time spent */
+  remainingEstimateSeconds?: number;
+  /** Leave the remaining estimate unchanged; takes precedence over remainingEstimateSeconds */
+  keepRemainingEstimate?: boolean;
+}
+
+export interface JiraIssueContext {
+  summary: string;
+  parent: { key: string; summary: string } | null;
+}
+
 export interface JiraBoard {
   id: number;
   name: string;
   type: string;
 }
 
+/** Per-call opt-outs for smart links and status/date/emoji nodes in markdown */
+export type MarkdownFormatting = Pick<MarkdownToAdfOptions, "autoLink" | "inlineNodes">;
+
+/** Worklog comments are read back as plain text, so they stay plain */
+const PLAIN_MARKDOWN: MarkdownFormatting = { autoLink: false, inlineNodes: false };
+
+/** Project keys per site; projects rarely change while the server runs */
+const projectKeyCache = new Map<string, string[]>();
+
 export class JiraClient {
   private baseUrl: string;
   private authHeader: string;
@@ -104,8 +202,45 @@ export class JiraClient {
     return res.json();
   }
 
-  async getIssue(issueKey: string): Promise<JiraIssue> {
-    const data = await this.request(`/issue/${issueKey}?fields=summary,status,assignee,issuetype,priority,description`);
+  private toIssueRef(issue: any): JiraIssueRef {
+    return {
+      key: issue.key,
+      summary: issue.fields?.summary ?? "",
+      status: issue.fields?.status?.name ?? "Unknown",
+    };
+  }
+
+  /**
+   * Get an issue. The description is rendered as markdown unless `format` is "text".
+   * `extraFields` are additional JIRA field IDs (e.g. "duedate", "customfield_10042")
+   * returned as-is under extraFields, with rich text rendered in `format` too.
+   */
+  async getIssue(
+    issueKey: string,
+    format: AdfTextFormat = "markdown",
+    extraFields: string[] = []
+  ): Promise<JiraIssue> {
+    const customFields = this.config.customFields ?? {};
+    const fields = [
+      "summary",
+      "status",
+      "assignee",
+      "issuetype",
+      "priority",
+      "description",
+      "timetracking",
+      "labels",
+      "components",
+      "fixVersions",
+      "parent",
+      "subtasks",
+      "issuelinks",
+      ...Object.values(customFields),
+      ...extraFields,
+    ];
+    const data = await this.request(`/issue/${issueKey}?fields=${encodeURIComponent(fields.join(","))}`);
+    const { storyPoints: storyPointsField, ...otherFields } = customFields;
+    const storyPoints = storyPointsField ? data.fields[storyPointsField] : null;
     return {
       id: parseInt(data.id, 10),
       key: data.key,
@@ -115,48 +250,113 @@ export class JiraClient {
       issueType: data.fields.issuetype?.name ?? "Unknown",
       priority: data.fields.priority?.name ?? "Unknown",
       description: data.fields.description
-        ? this.extractTextFromAdf(data.fields.description)
+        ? renderAdf(data.fields.description, format)
+        : null,
+      timeTracking: {
+        originalEstimateSeconds: data.fields.timetracking?.originalEstimateSeconds ?? null,
+        remainingEstimateSeconds: data.fields.timetracking?.remainingEstimateSeconds ?? null,
+        timeSpentSeconds: data.fields.timetracking?.timeSpentSeconds ?? null,
+      },
+      labels: data.fields.labels ?? [],
+      components: (data.fields.components ?? []).map((c: any) => c.name),
+      fixVersions: (data.fields.fixVersions ?? []).map((v: any) => v.name),
+      parent: data.fields.parent
+        ? { key: data.fields.parent.key, summary: data.fields.parent.fields?.summary ?? "" }
         : null,
+      subtasks: (data.fields.subtasks ?? []).map((t: any) => this.toIssueRef(t)),
+      links: (data.fields.issuelinks ?? []).map((l: any) => ({
+        ...this.toIssueRef(l.outwardIssue ?? l.inwardIssue),
+        type: l.outwardIssue ? l.type.outward : l.type.inward,
+      })),
+      storyPoints: typeof storyPoints === "number" ? storyPoints : null,
+      customFields: Object.fromEntries(
+        Object.entries(otherFields).map(([name, id]) => [name, this.simplifyFieldValue(data.fields[id])])
+      ),
+      extraFields: Object.fromEntries(
+        extraFields.map((id) => {
+          const value = data.fields[id] ?? null;
+          return [id, value?.type === "doc" ? renderAdf(value, format) : value];
+        })
+      ),
     };
   }
 
+  /**
+   * Reduce a custom field value to something readable: options to their
+   * value, users to their display name, arrays element-wise.
+   */
+  private simplifyFieldValue(value: any): unknown {
+    if (value === null || value === undefined) return null;
+    if (Array.isArray(value)) return value.map((v) => this.simplifyFieldValue(v));
+    if (typeof value === "object") {
+      if (value.type === "doc") return adfToPlainText(value);
+      return value.value ?? value.displayName ?? value.name ?? value.key ?? value;
+    }
+    return value;
+  }
+
   async getIssueId(issueKey: string): Promise<number> {
     const data = await this.request(`/issue/${issueKey}?fields=`);
     return parseInt(data.id, 10);
   }
 
   async getTransitions(issueKey: string): Promise<JiraTransition[]> {
-    const data = await this.request(`/issue/${issueKey}/transitions`);
+    const data = await this.request(`/issue/${issueKey}/transitions?expand=transitions.fields`);
     return data.transitions.map((t: any) => ({
       id: t.id,
       name: t.name,
+      to: t.to?.name ?? t.name,
+      toCategory: t.to?.statusCategory?.key ?? "indeterminate",
+      fields: Object.entries(t.fields ?? {}).map(([id, f]: [string, any]) => ({
+        id,
+        name: f.name ?? id,
+        required: f.required ?? false,
+        hasDefaultValue: f.hasDefaultValue ?? false,
+        allowedValues: f.allowedValues?.map((v: any) => ({
+          id: String(v.id),
+          name: v.name ?? v.value ?? String(v.id),
+        })),
+      })),
     }));
   }
 
-  async transitionIssue(issueKey: string, transitionId: string): Promise<void> {
+  /**
+   * Apply a transition, optionally setting fields on its screen and adding a markdown comment.
+   */
+  async transitionIssue(
+    issueKey: string,
+    transitionId: string,
+    fields: Record<string, unknown> = {},
+    comment?: string,
+    formatting: MarkdownFormatting = {}
+  ): Promise<void> {
+    const body: any = { transition: { id: transitionId } };
+    if (Object.keys(fields).length > 0) body.fields = fields;
+    if (comment) body.update = { comment: [{ add: { body: await this.toAdf(comment, formatting) } }] };
     await this.request(`/issue/${issueKey}/transitions`, {
       method: "POST",
-      body: JSON.stringify({
-        transition: { id: transitionId },
-      }),
+      body: JSON.stringify(body),
     });
   }
 
-  async addComment(issueKey: string, commentBody: string): Promise<void> {
+  async addComment(issueKey: string, commentBody: string, formatting: MarkdownFormatting = {}): Promise<void> {
     await this.request(`/issue/${issueKey}/comment`, {
       method: "POST",
       body: JSON.stringify({
-        body: markdownToAdf(commentBody),
+        body: await this.toAdf(commentBody, formatting),
       }),
     });
   }
 
-  async getComments(issueKey: string): Promise<JiraComment[]> {
+  /**
+   * Get comments, newest first. Bodies are rendered as markdown unless `format` is "text".
+   */
+  async getComments(issueKey: string, format: AdfTextFormat = "markdown"): Promise<JiraComment[]> {
     const data = await this.request(`/issue/${issueKey}/comment?orderBy=-created`);
     return (data.comments ?? []).map((c: any) => ({
       id: c.id,
       author: c.author?.displayName ?? "Unknown",
-      body: c.body ? this.extractTextFromAdf(c.body) : "",
+      body: c.body ? renderAdf(c.body, format) : "",
       created: c.created,
       updated: c.updated,
     }));
@@ -179,23 +379,144 @@ export class JiraClient {
   }
 
   /**
-   * Extract plain text from Atlassian Document Format (ADF).
+   * Get display names for a set of account IDs, keyed by account ID.
    */
-  private extractTextFromAdf(adf: any): string {
-    if (!adf || !adf.content) return "";
-    const texts: string[] = [];
-    const walk = (node: any) => {
-      if (node.type === "text" && node.text) {
-        texts.push(node.text);
-      }
-      if (node.content) {
-        for (const child of node.content) {
-          walk(child);
-        }
+  async getUserNames(accountIds: string[]): Promise<Record<string, string>> {
+    const names: Record<string, string> = {};
+    // The bulk endpoint accepts up to 200 account IDs per request
+    for (let i = 0; i < accountIds.length; i += 200) {
+      const batch = accountIds.slice(i, i + 200);
+      const params = batch.map((id) => `accountId=${encodeURIComponent(id)}`).join("&");
+      const data = await this.request(`/user/bulk?${params}&maxResults=${batch.length}`);
+      for (const u of data.values ?? []) {
+        names[u.accountId] = u.displayName;
       }
+    }
+    return names;
+  }
+
+  private toWorklog(w: any): JiraWorklog {
+    return {
+      id: parseInt(w.id, 10),
+      issueId: parseInt(w.issueId, 10),
+      authorAccountId: w.author?.accountId ?? "",
+      started: w.started,
+      timeSpentSeconds: w.timeSpentSeconds,
+      comment: w.comment ? adfToPlainText(w.comment) : "",
     };
-    walk(adf);
-    return texts.join(" ");
+  }
+
+  /**
+   * Get native JIRA worklogs of an issue, optionally limited to a start range (epoch ms).
+   */
+  async getIssueWorklogs(issueKey: string, startedAfter?: number, startedBefore?: number): Promise<JiraWorklog[]> {
+    const worklogs: JiraWorklog[] = [];
+    let startAt = 0;
+    while (true) {
+      let path = `/issue/${issueKey}/worklog?startAt=${startAt}&maxResults=5000`;
+      if (startedAfter !== undefined) path += `&startedAfter=${startedAfter}`;
+      if (startedBefore !== undefined) path += `&startedBefore=${startedBefore}`;
+      const data = await this.request(path);
+      const page = (data.worklogs ?? []).map((w: any) => this.toWorklog(w));
+      worklogs.push(...page);
+      startAt += page.length;
+      if (page.length === 0 || startAt >= (data.total ?? 0)) break;
+    }
+    return worklogs;
+  }
+
+  /**
+   * Get native JIRA worklogs by ID (across issues).
+   */
+  async getWorklogsByIds(worklogIds: number[]): Promise<JiraWorklog[]> {
+    const data = await this.request("/worklog/list", {
+      method: "POST",
+      body: JSON.stringify({ ids: worklogIds }),
+    });
+    return (data ?? []).map((w: any) => this.toWorklog(w));
+  }
+
+  /** Query string telling JIRA how to adjust the remaining estimate. */
+  private estimateParams(worklog: JiraWorklogInput): string {
+    if (worklog.keepRemainingEstimate) return "?adjustEstimate=leave";
+    if (worklog.remainingEstimateSeconds === undefined) return "";
+    return `?adjustEstimate=new&newEstimate=${Math.round(worklog.remainingEstimateSeconds / 60)}m`;
+  }
+
+  /** Request body for a worklog; a blank comment is left out, as ADF rejects empty text nodes. */
+  private worklogBody(worklog: JiraWorklogInput): string {
+    return JSON.stringify({
+      started: worklog.started,
+      timeSpentSeconds: worklog.timeSpentSeconds,
+      comment: worklog.comment.trim() ? markdownToAdf(worklog.comment, PLAIN_MARKDOWN) : undefined,
+    });
+  }
+
+  /**
+   * Add a native JIRA worklog to an issue.
+   */
+  async addWorklog(issueIdOrKey: string | number, worklog: JiraWorklogInput): Promise<JiraWorklog> {
+    const data = await this.request(`/issue/${issueIdOrKey}/worklog${this.estimateParams(worklog)}`, {
+      method: "POST",
+      body: this.worklogBody(worklog),
+    });
+    return this.toWorklog(data);
+  }
+
+  /**
+   * Update a native JIRA worklog.
+   */
+  async updateWorklog(
+    issueIdOrKey: string | number,
+    worklogId: number,
+    worklog: JiraWorklogInput
+  ): Promise<JiraWorklog> {
+    const data = await this.request(`/issue/${issueIdOrKey}/worklog/${worklogId}${this.estimateParams(worklog)}`, {
+      method: "PUT",
+      body: this.worklogBody(worklog),
+    });
+    return this.toWorklog(data);
+  }
+
+  /**
+   * Delete a native JIRA worklog.
+   */
+  async deleteWorklog(issueIdOrKey: string | number, worklogId: number): Promise<void> {
+    await this.request(`/issue/${issueIdOrKey}/worklog/${worklogId}`, { method: "DELETE" });
+  }
+
+  /**
+   * Keys of all projects visible to the user (cached per site).
+   */
+  async getProjectKeys(): Promise<string[]> {
+    const cached = projectKeyCache.get(this.config.baseUrl);
+    if (cached) return cached;
+
+    const keys: string[] = [];
+    let startAt = 0;
+    while (true) {
+      const data = await this.request(`/project/search?startAt=${startAt}&maxResults=100`);
+      keys.push(...(data.values ?? []).map((p: any) => p.key));
+      startAt += data.values?.length ?? 0;
+      if (data.isLast !== false || !data.values?.length) break;
+    }
+    projectKeyCache.set(this.config.baseUrl, keys);
+    return keys;
+  }
+
+  /**
+   * Convert markdown to ADF, linking issue keys of this site's projects.
+   */
+  private async toAdf(markdown: string, formatting: MarkdownFormatting): Promise<AdfDocument> {
+    let projects: string[] = [];
+    if (formatting.autoLink ?? true) {
+      try {
+        projects = await this.getProjectKeys();
+      } catch (err) {
+        console.error("Failed to list projects, issue keys will not be linked:", err);
+      }
+    }
+    return markdownToAdf(markdown, { ...formatting, baseUrl: `https://${this.config.baseUrl}`, projects });
   }
 
   /**
@@ -225,18 +546,21 @@ export class JiraClient {
   /**
    * Search issues using JQL.
    * Uses the new /search/jql endpoint (the old /search was deprecated).
+   * Pass the previous result's nextPageToken to fetch the following page.
    */
-  async searchIssues(jql: string, maxResults: number = 20): Promise<JiraSearchResult> {
+  async searchIssues(jql: string, maxResults: number = 20, nextPageToken?: string): Promise<JiraSearchResult> {
     const data = await this.request("/search/jql", {
       method: "POST",
       body: JSON.stringify({
         jql,
         maxResults,
+        nextPageToken,
         fields: ["summary", "status", "assignee", "issuetype", "priority"],
       }),
     });
     return {
       total: data.total,
+      nextPageToken: data.isLast ? undefined : data.nextPageToken,
       issues: data.issues.map((issue: any) => ({
         id: parseInt(issue.id, 10),
         key: issue.key,
@@ -249,10 +573,58 @@ export class JiraClient {
     };
   }
 
+  /**
+   * Get summary and parent (epic) for a set of issues, keyed by issue key.
+   * Issues that were deleted, moved or are not visible are left out.
+   */
+  async getIssueContext(
+    issueKeys: string[]
+  ): Promise<Record<string, JiraIssueContext>> {
+    const context: Record<string, JiraIssueContext> = {};
+    const fetchBatch = async (batch: string[]) => {
+      const data = await this.request("/search/jql", {
+        method: "POST",
+        body: JSON.stringify({
+          jql: `key in (${batch.join(",")})`,
+          maxResults: batch.length,
+          fields: ["summary", "parent"],
+        }),
+      });
+      for (const issue of data.issues ?? []) {
+        const parent = issue.fields.parent;
+        context[issue.key] = {
+          summary: issue.fields.summary,
+          parent: parent ? { key: parent.key, summary: parent.fields?.summary ?? "" } : null,
+        };
+      }
+    };
+
+    // JQL "key in (...)" is limited in length, query in batches
+    for (let i = 0; i < issueKeys.length; i += 100) {
+      const batch = issueKeys.slice(i, i + 100);
+      try {
+        await fetchBatch(batch);
+      } catch {
+        // One unknown key fails the whole query; retry the keys one by one
+        for (const key of batch) {
+          try {
+            await fetchBatch([key]);
+          } catch (err) {
+            console.error(`Skipping context for ${key}:`, err);
+          }
+        }
+      }
+    }
+    return context;
+  }
+
   /**
    * Create a new issue.
    */
-  async createIssue(params: CreateIssueParams): Promise<{ id: number; key: string; url: string }> {
+  async createIssue(
+    params: CreateIssueParams,
+    formatting: MarkdownFormatting = {}
+  ): Promise<{ id: number; key: string; url: string }> {
     const body: any = {
       fields: {
         project: { key: params.project },
@@ -262,7 +634,7 @@ export class JiraClient {
     };
 
     if (params.description) {
-      body.fields.description = markdownToAdf(params.description);
+      body.fields.description = await this.toAdf(params.description, formatting);
     }
 
     if (params.priority) {
@@ -285,6 +657,70 @@ export class JiraClient {
     };
   }
 
+  /**
+   * Get the fields the current user can edit on an issue (field ID → name).
+   */
+  async getEditableFields(issueKey: string): Promise<Record<string, string>> {
+    const data = await this.request(`/issue/${issueKey}/editmeta`);
+    return Object.fromEntries(
+      Object.entries(data.fields ?? {}).map(([id, meta]: [string, any]) => [id, meta.name ?? id])
+    );
+  }
+
+  /**
+   * Update an issue. Checks editmeta first so a field that is not on the
+   * edit screen fails with a clear message instead of a partial update.
+   * Returns the IDs of the fields that were changed.
+   */
+  async updateIssue(
+    issueKey: string,
+    params: UpdateIssueParams,
+    formatting: MarkdownFormatting = {}
+  ): Promise<string[]> {
+    const fields: Record<string, unknown> = {};
+    const update: Record<string, Array<Record<string, unknown>>> = {};
+
+    if (params.summary !== undefined) fields.summary = params.summary;
+    if (params.description !== undefined) fields.description = await this.toAdf(params.description, formatting);
+    if (params.priority !== undefined) fields.priority = { name: params.priority };
+    if (params.dueDate !== undefined) fields.duedate = params.dueDate;
+
+    const labelOps = [
+      ...(params.addLabels ?? []).map((label) => ({ add: label })),
+      ...(params.removeLabels ?? []).map((label) => ({ remove: label })),
+    ];
+    if (labelOps.length > 0) update.labels = labelOps;
+
+    const componentOps = [
+      ...(params.addComponents ?? []).map((name) => ({ add: { name } })),
+      ...(params.removeComponents ?? []).map((name) => ({ remove: { name } })),
+    ];
+    if (componentOps.length > 0) update.components = componentOps;
+
+    if (params.storyPoints !== undefined) {
+      const storyPointsField = this.config.customFields?.storyPoints;
+      if (!storyPointsField) {
+        throw new Error('No "storyPoints" custom field configured for this instance (see customFields in the config)');
+      }
+      fields[storyPointsField] = params.storyPoints;
+    }
+
+    const changed = [...Object.keys(fields), ...Object.keys(update)];
+    if (changed.length === 0) return [];
+
+    const editable = await this.getEditableFields(issueKey);
+    const notEditable = changed.filter((id) => !(id in editable));
+    if (notEditable.length > 0) {
+      throw new Error(`Field(s) not editable on ${issueKey}: ${notEditable.join(", ")}`);
+    }
+
+    await this.request(`/issue/${issueKey}`, {
+      method: "PUT",
+      body: JSON.stringify({ fields, update }),
+    });
+    return changed;
+  }
+
   /**
    * Get boards for a project.
    */
@@ -0,0 +1,39 @@
+/**
+ * Local JSON state files (journal, timers, ...).
+ *
+ * Stored next to the config file in ~/.config/jira-tempo-mcp/.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "fs";
+import { homedir } from "os";
+import { join } from "path";
+
+export function getStateDir(): string {
+  return join(homedir(), ".config", "jira-tempo-mcp");
+}
+
+/**
+ * Read a state file, returning the fallback if it is missing or unreadable.
+ */
+export function readState<T>(fileName: string, fallback: T): T {
+  const path = join(getStateDir(), fileName);
+  if (!existsSync(path)) return fallback;
+  try {
+    return JSON.parse(readFileSync(path, "utf-8")) as T;
+  } catch (err) {
+    console.error(`Failed to parse state file ${path}:`, err);
+    return fallback;
+  }
+}
+
+/**
+ * Write a state file atomically (write to temp file, then rename).
+ */
+export function writeState<T>(fileName: string, data: T): void {
+  const dir = getStateDir();
+  mkdirSync(dir, { recursive: true });
+  const path = join(dir, fileName);
+  const tmpPath = `${path}.tmp`;
+  writeFileSync(tmpPath, JSON.stringify(data, null, 2), "utf-8");
+  renameSync(tmpPath, path);
+}
@@ -1,12 +1,17 @@
 /**
  * Markdown → Atlassian Document Format (ADF) converter.
  *
- * Supports: headings, bold, italic, code (inline + fenced), lists (bullet + ordered),
- * blockquotes, horizontal rules, tables, and @mentions.
+ * Supports: headings, bold, italic, strikethrough, code (inline + fenced),
+ * lists (bullet, ordered, nested, `- [ ]` tasks), blockquotes, GitHub callouts
+ * (`> [!NOTE]` → panels), `<details>` (→ expands), horizontal rules, tables,
+ * @mentions, smart links for bare URLs and issue keys, `{status:TEXT|color}`,
+ * `{date:YYYY-MM-DD}` and `:emoji:` shortcodes.
  *
  * No external dependencies.
  */
 
+import { randomUUID } from "node:crypto";
+
 // ---------------------------------------------------------------------------
 // ADF type definitions (subset needed for output)
 // ---------------------------------------------------------------------------
@@ -25,7 +30,10 @@ export type AdfBlock =
   | AdfCodeBlock
   | AdfBlockquote
   | AdfRule
-  | AdfTable;
+  | AdfTable
+  | AdfTaskList
+  | AdfPanel
+  | AdfExpand;
 
 export interface AdfHeading {
   type: "heading";
@@ -45,6 +53,7 @@ export interface AdfBulletList {
 
 export interface AdfOrderedList {
   type: "orderedList";
+  attrs?: { order: number };
   content: AdfListItem[];
 }
 
@@ -53,6 +62,31 @@ export interface AdfListItem {
   content: AdfBlock[];
 }
 
+export interface AdfTaskList {
+  type: "taskList";
+  attrs: { localId: string };
+  content: (AdfTaskItem | AdfTaskList)[];
+}
+
+export interface AdfTaskItem {
+  type: "taskItem";
+  attrs: { localId: string; state: "TODO" | "DONE" };
+  content: AdfInline[];
+}
+
+export interface AdfPanel {
+  type: "panel";
+  attrs: { panelType: "info" | "note" | "success" | "warning" | "error" };
+  content: AdfBlock[];
+}
+
+/** Expands inside expands must be nestedExpand */
+export interface AdfExpand {
+  type: "expand" | "nestedExpand";
+  attrs: { title: string };
+  content: AdfBlock[];
+}
+
 export interface AdfCodeBlock {
   type: "codeBlock";
   attrs?: { language?: string };
@@ -91,7 +125,14 @@ export interface AdfTableCell {
   content: AdfBlock[];
 }
 
-export type AdfInline = AdfText | AdfMention | AdfHardBreak;
+export type AdfInline =
+  | AdfText
+  | AdfMention
+  | AdfHardBreak
+  | AdfInlineCard
+  | AdfStatus
+  | AdfDate
+  | AdfEmoji;
 
 export interface AdfText {
   type: "text";
@@ -108,27 +149,77 @@ export interface AdfHardBreak {
   type: "hardBreak";
 }
 
+export interface AdfInlineCard {
+  type: "inlineCard";
+  attrs: { url: string };
+}
+
+export type AdfStatusColor = "neutral" | "purple" | "blue" | "red" | "yellow" | "green";
+
+export interface AdfStatus {
+  type: "status";
+  attrs: { text: string; color: AdfStatusColor; localId: string };
+}
+
+export interface AdfDate {
+  type: "date";
+  attrs: { timestamp: string }; // epoch milliseconds, UTC midnight
+}
+
+export interface AdfEmoji {
+  type: "emoji";
+  attrs: { shortName: string };
+}
+
+/** Per-call switches for the smart inline conversions */
+export interface MarkdownToAdfOptions {
+  /** Turn bare URLs, and issue keys of `projects`, into smart links (default: true) */
+  autoLink?: boolean;
+  /** Site URL for issue links, e.g. "https://example.atlassian.net" */
+  baseUrl?: string;
+  /** Project keys whose issue keys are linked */
+  projects?: string[];
+  /** Convert {status:TEXT|color}, {date:YYYY-MM-DD} and :emoji: (default: true) */
+  inlineNodes?: boolean;
+}
+
+const STATUS_COLORS: AdfStatusColor[] = ["neutral", "purple", "blue", "red", "yellow", "green"];
+
 export type AdfMark =
   | { type: "strong" }
   | { type: "em" }
   | { type: "code" }
+  | { type: "strike" }
   | { type: "link"; attrs: { href: string } };
 
 // ---------------------------------------------------------------------------
 // Inline parser
 // ---------------------------------------------------------------------------
 
+/** Whether year, month and day name a real day; Date.UTC would roll 2024-02-31 over into March. */
+function isCalendarDate(year: string, month: string, day: string): boolean {
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  return date.getUTCMonth() === Number(month) - 1 && date.getUTCDate() === Number(day);
+}
+
 /**
  * Parse inline markdown into ADF inline nodes.
  *
- * Handles: **bold**, *italic*, _italic_, `code`, [text](url), @accountId:XXX
+ * Handles: **bold**, *italic*, _italic_, ~~strike~~, `code`, [text](url), @accountId:XXX,
+ * plus (unless disabled in `options`) bare URLs, issue keys, {status:TEXT|color},
+ * {date:YYYY-MM-DD} and :emoji:. URLs and shortcodes are matched even when
+ * disabled so underscores in them are not read as italics. Shortcodes must
+ * stand alone, so "foo:bar:baz" stays text; impossible dates stay text too.
  */
-function parseInline(text: string): AdfInline[] {
+function parseInline(text: string, options: MarkdownToAdfOptions = {}): AdfInline[] {
   const nodes: AdfInline[] = [];
+  const autoLink = options.autoLink ?? true;
+  const inlineNodes = options.inlineNodes ?? true;
+  const projects = new Set(options.projects ?? []);
 
   // Regex alternation for inline patterns (order matters — bold before italic)
   const inlineRe =
-    /(\*\*(.+?)\*\*)|(\*(.+?)\*)|(_(.+?)_)|(`([^`]+)`)|\[([^\]]+)\]\(([^)]+)\)|(@accountId:([a-zA-Z0-9:_-]+))/g;
+    /(\*\*(.+?)\*\*)|(\*(.+?)\*)|(_(.+?)_)|(`([^`]+)`)|\[([^\]]+)\]\(([^)]+)\)|(@accountId:([a-zA-Z0-9:_-]+))|(~~(.+?)~~)|(\{status:([^|}]+)(?:\|([a-z]+))?\})|(\{date:(\d{4})-(\d{2})-(\d{2})\})|(?<![\w:])(:([a-z][a-z0-9_+-]*):)(?![\w:])|(https?:\/\/[^\s<>]*[^\s<>.,;:!?'")\]])|(\b([A-Z][A-Z0-9_]+)-\d+\b)/g;
 
   let lastIndex = 0;
   let match: RegExpExecArray | null;
@@ -164,6 +255,32 @@ function parseInline(text: string): AdfInline[] {
         type: "mention",
         attrs: { id: match[12], text: `@${match[12]}`, accessLevel: "" },
       });
+    } else if (match[13]) {
+      // ~~strike~~
+      nodes.push({ type: "text", text: match[14], marks: [{ type: "strike" }] });
+    } else if (match[15] && inlineNodes) {
+      // {status:IN PROGRESS|blue}
+      const color = STATUS_COLORS.find((c) => c === match![17]?.toLowerCase()) ?? "neutral";
+      nodes.push({
+        type: "status",
+        attrs: { text: match[16].trim().toUpperCase(), color, localId: randomUUID() },
+      });
+    } else if (match[18] && inlineNodes && isCalendarDate(match[19], match[20], match[21])) {
+      // {date:2024-05-06}
+      const timestamp = Date.UTC(Number(match[19]), Number(match[20]) - 1, Number(match[21]));
+      nodes.push({ type: "date", attrs: { timestamp: String(timestamp) } });
+    } else if (match[22] && inlineNodes) {
+      // :emoji:
+      nodes.push({ type: "emoji", attrs: { shortName: match[22] } });
+    } else if (match[24] && autoLink) {
+      // Bare URL
+      nodes.push({ type: "inlineCard", attrs: { url: match[24] } });
+    } else if (match[25] && autoLink && options.baseUrl && projects.has(match[26])) {
+      // Issue key of one of the instance's projects
+      nodes.push({ type: "inlineCard", attrs: { url: `${options.baseUrl}/browse/${match[25]}` } });
+    } else {
+      // Disabled conversion or unknown project: keep as written
+      nodes.push({ type: "text", text: match[0] });
     }
 
     lastIndex = match.index + match[0].length;
@@ -186,7 +303,7 @@ function parseInline(text: string): AdfInline[] {
 // Table parser
 // ---------------------------------------------------------------------------
 
-function parseTableBlock(lines: string[]): AdfTable {
+function parseTableBlock(lines: string[], options: MarkdownToAdfOptions): AdfTable {
   const rows: AdfTableRow[] = [];
 
   for (let i = 0; i < lines.length; i++) {
@@ -205,7 +322,7 @@ function parseTableBlock(lines: string[]): AdfTable {
       const cellNode: AdfTableHeader | AdfTableCell = {
         type: isHeader ? "tableHeader" : "tableCell",
         attrs: {},
-        content: [{ type: "paragraph", content: parseInline(cellText) }],
+        content: [{ type: "paragraph", content: parseInline(cellText, options) }],
       };
       return cellNode;
     });
@@ -220,11 +337,126 @@ function parseTableBlock(lines: string[]): AdfTable {
   };
 }
 
+// ---------------------------------------------------------------------------
+// List parser (bullet, ordered and task lists, nested by indentation)
+// ---------------------------------------------------------------------------
+
+const LIST_ITEM_RE = /^(\s*)([-*+•]|\d+\.)\s+(.*)$/;
+
+interface ListLine {
+  indent: number;
+  kind: "bullet" | "ordered" | "task";
+  number: number;
+  checked: boolean;
+  text: string;
+}
+
+function parseListLine(line: string): ListLine {
+  const [, indent, marker, rest] = line.replace(/\t/g, "    ").match(LIST_ITEM_RE)!;
+  const task = /^[-*+•]$/.test(marker) ? rest.match(/^\[([ xX])\]\s+(.*)$/) : null;
+  return {
+    indent: indent.length,
+    kind: task ? "task" : /\d/.test(marker) ? "ordered" : "bullet",
+    number: parseInt(marker, 10) || 1,
+    checked: task ? task[1] !== " " : false,
+    text: task ? task[2] : rest,
+  };
+}
+
+/**
+ * Build the list starting at `items[start]`, with deeper-indented items
+ * nested under the preceding item. Stops at a shallower item or at a sibling
+ * of a different kind. Task lists can only contain task lists, so other lists
+ * nested under a task are emitted after it.
+ */
+function buildList(
+  items: ListLine[],
+  start: number,
+  options: MarkdownToAdfOptions
+): { blocks: AdfBlock[]; next: number } {
+  const { indent: level, kind } = items[start];
+  let i = start;
+
+  if (kind === "task") {
+    const content: (AdfTaskItem | AdfTaskList)[] = [];
+    const after: AdfBlock[] = [];
+    while (i < items.length && items[i].indent >= level) {
+      if (items[i].indent > level) {
+        const nested = buildList(items, i, options);
+        for (const block of nested.blocks) {
+          if (block.type === "taskList") content.push(block);
+          else after.push(block);
+        }
+        i = nested.next;
+        continue;
+      }
+      if (items[i].kind !== kind) break;
+      content.push({
+        type: "taskItem",
+        attrs: { localId: randomUUID(), state: items[i].checked ? "DONE" : "TODO" },
+        content: parseInline(items[i].text, options),
+      });
+      i++;
+    }
+    return { blocks: [{ type: "taskList", attrs: { localId: randomUUID() }, content }, ...after], next: i };
+  }
+
+  const listItems: AdfListItem[] = [];
+  while (i < items.length && items[i].indent >= level) {
+    if (items[i].indent > level) {
+      const nested = buildList(items, i, options);
+      listItems[listItems.length - 1].content.push(...nested.blocks);
+      i = nested.next;
+      continue;
+    }
+    if (items[i].kind !== kind) break;
+    listItems.push({ type: "listItem", content: [{ type: "paragraph", content: parseInline(items[i].text, options) }] });
+    i++;
+  }
+
+  if (kind === "ordered") {
+    const list: AdfOrderedList = { type: "orderedList", content: listItems };
+    if (items[start].number !== 1) list.attrs = { order: items[start].number };
+    return { blocks: [list], next: i };
+  }
+  return { blocks: [{ type: "bulletList", content: listItems }], next: i };
+}
+
+function parseListBlock(lines: string[], options: MarkdownToAdfOptions): AdfBlock[] {
+  const items = lines.map(parseListLine);
+  // Dedent so the first item is the outermost level
+  const base = Math.min(...items.map((item) => item.indent));
+  for (const item of items) item.indent = Math.max(item.indent - base, 0);
+
+  const blocks: AdfBlock[] = [];
+  let i = 0;
+  while (i < items.length) {
+    const list = buildList(items, i, options);
+    blocks.push(...list.blocks);
+    i = list.next;
+  }
+  return blocks;
+}
+
 // ---------------------------------------------------------------------------
 // Block-level parser (line-by-line state machine)
 // ---------------------------------------------------------------------------
 
-export function markdownToAdf(markdown: string): AdfDocument {
+/** ADF panel type per GitHub callout */
+const CALLOUT_PANELS: Record<string, AdfPanel["attrs"]["panelType"]> = {
+  NOTE: "info",
+  TIP: "success",
+  IMPORTANT: "note",
+  WARNING: "warning",
+  CAUTION: "error",
+};
+
+/** Expands cannot contain expands; nested ones become nestedExpand. */
+function nestExpands(blocks: AdfBlock[]): AdfBlock[] {
+  return blocks.map((block) => (block.type === "expand" ? { ...block, type: "nestedExpand" } : block));
+}
+
+export function markdownToAdf(markdown: string, options: MarkdownToAdfOptions = {}): AdfDocument {
   const lines = markdown.split("\n");
   const blocks: AdfBlock[] = [];
 
@@ -235,7 +467,7 @@ export function markdownToAdf(markdown: string): AdfDocument {
     if (paraLines.length === 0) return;
     const text = paraLines.join("\n");
     if (text.trim() === "") return;
-    blocks.push({ type: "paragraph", content: parseInline(text) });
+    blocks.push({ type: "paragraph", content: parseInline(text, options) });
   };
 
   let paragraphBuffer: string[] = [];
@@ -284,7 +516,7 @@ export function markdownToAdf(markdown: string): AdfDocument {
       blocks.push({
         type: "heading",
         attrs: { level },
-        content: parseInline(headingMatch[2]),
+        content: parseInline(headingMatch[2], options),
       });
       i++;
       continue;
@@ -299,12 +531,57 @@ export function markdownToAdf(markdown: string): AdfDocument {
         quoteLines.push(lines[i].replace(/^>\s?/, ""));
         i++;
       }
+      const callout = quoteLines[0].trim().match(/^\[!(NOTE|TIP|IMPORTANT|WARNING|CAUTION)\]$/i);
+      if (callout) {
+        const innerDoc = markdownToAdf(quoteLines.slice(1).join("\n"), options);
+        blocks.push({
+          type: "panel",
+          attrs: { panelType: CALLOUT_PANELS[callout[1].toUpperCase()] },
+          content: innerDoc.content,
+        });
+        continue;
+      }
       const innerMarkdown = quoteLines.join("\n");
-      const innerDoc = markdownToAdf(innerMarkdown);
+      const innerDoc = markdownToAdf(innerMarkdown, options);
       blocks.push({ type: "blockquote", content: innerDoc.content });
       continue;
     }
 
+    // --- <details><summary>Title</summary> ... </details> ---
+    if (/^\s*<details(\s[^>]*)?>/i.test(trimmed)) {
+      flushParagraph(paragraphBuffer);
+      paragraphBuffer = [];
+      // Collect up to the matching </details>, allowing nested ones
+      const bodyLines: string[] = [];
+      let depth = 1;
+      let current = trimmed.replace(/^\s*<details(\s[^>]*)?>/i, "");
+      while (true) {
+        depth += (current.match(/<details(\s[^>]*)?>/gi) ?? []).length;
+        depth -= (current.match(/<\/details>/gi) ?? []).length;
+        i++;
+        if (depth <= 0) {
+          bodyLines.push(current.replace(/<\/details>\s*$/i, ""));
+          break;
+        }
+        bodyLines.push(current);
+        if (i >= lines.length) break;
+        current = lines[i];
+      }
+      let body = bodyLines.join("\n");
+      let title = "";
+      const summary = body.match(/^\s*<summary>([\s\S]*?)<\/summary>/i);
+      if (summary) {
+        title = summary[1].trim();
+        body = body.slice(summary[0].length);
+      }
+      blocks.push({
+        type: "expand",
+        attrs: { title },
+        content: nestExpands(markdownToAdf(body.trim(), options).content),
+      });
+      continue;
+    }
+
     // --- Table (requires header row + separator row like |---|---|) ---
     if (/^\|.+\|/.test(trimmed)) {
       const nextLine = i + 1 < lines.length ? lines[i + 1].trim() : "";
@@ -316,42 +593,21 @@ export function markdownToAdf(markdown: string): AdfDocument {
           tableLines.push(lines[i]);
           i++;
         }
-        blocks.push(parseTableBlock(tableLines));
+        blocks.push(parseTableBlock(tableLines, options));
         continue;
       }
     }
 
-    // --- Bullet list (supports - * + and • markers) ---
-    if (/^[\s]*[-*+•]\s+/.test(line)) {
+    // --- Lists (- * + • bullets, 1. ordered, - [ ] tasks; nested by indentation) ---
+    if (LIST_ITEM_RE.test(line)) {
       flushParagraph(paragraphBuffer);
       paragraphBuffer = [];
-      const items: AdfListItem[] = [];
-      while (i < lines.length && /^[\s]*[-*+•]\s+/.test(lines[i])) {
-        const itemText = lines[i].replace(/^[\s]*[-*+•]\s+/, "");
-        items.push({
-          type: "listItem",
-          content: [{ type: "paragraph", content: parseInline(itemText) }],
-        });
-        i++;
-      }
-      blocks.push({ type: "bulletList", content: items });
-      continue;
-    }
-
-    // --- Ordered list ---
-    if (/^[\s]*\d+\.\s+/.test(line)) {
-      flushParagraph(paragraphBuffer);
-      paragraphBuffer = [];
-      const items: AdfListItem[] = [];
-      while (i < lines.length && /^[\s]*\d+\.\s+/.test(lines[i])) {
-        const itemText = lines[i].replace(/^[\s]*\d+\.\s+/, "");
-        items.push({
-          type: "listItem",
-          content: [{ type: "paragraph", content: parseInline(itemText) }],
-        });
+      const listLines: string[] = [];
+      while (i < lines.length && LIST_ITEM_RE.test(lines[i])) {
+        listLines.push(lines[i]);
         i++;
       }
-      blocks.push({ type: "orderedList", content: items });
+      blocks.push(...parseListBlock(listLines, options));
       continue;
     }
 
@@ -0,0 +1,188 @@
+/**
+ * Per-instance work schedule: workday start, daily target, breaks and working weekdays.
+ */
+
+import { isoWeekday, eachDay, weekdayName } from "./date-utils.js";
+import type { TempoWorklogEntry } from "./tempo-client.js";
+import type { WorklogBackend } from "./worklog-backend.js";
+
+export interface WorkBreak {
+  start: string; // HH:MM:SS
+  end: string; // HH:MM:SS
+}
+
+export interface WorkSchedule {
+  workdayStart: string; // HH:MM:SS
+  dailyHours: number;
+  breaks: WorkBreak[];
+  /** ISO weekdays: 1 = Monday ... 7 = Sunday */
+  workingDays: number[];
+}
+
+/** Schedule as written in the config file (all fields optional, times may be HH:MM) */
+export interface ScheduleFileConfig {
+  workdayStart?: string;
+  dailyHours?: number;
+  breaks?: Array<{ start: string; end: string }>;
+  workingDays?: number[];
+}
+
+export const DEFAULT_SCHEDULE: WorkSchedule = {
+  workdayStart: "09:00:00",
+  dailyHours: 8,
+  breaks: [],
+  workingDays: [1, 2, 3, 4, 5],
+};
+
+/**
+ * Parse "HH:MM" or "HH:MM:SS" into seconds since midnight.
+ */
+export function parseTime(time: string): number {
+  const match = time.match(/^(\d{1,2}):(\d{2})(?::(\d{2}))?$/);
+  if (!match) {
+    throw new Error(`Invalid time '${time}', expected HH:MM or HH:MM:SS`);
+  }
+  return Number(match[1]) * 3600 + Number(match[2]) * 60 + Number(match[3] ?? 0);
+}
+
+/**
+ * Format seconds since midnight as HH:MM:SS.
+ */
+export function formatTime(totalSeconds: number): string {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+}
+
+/**
+ * Merge config file schedule blocks (later ones win) over the defaults.
+ */
+export function buildSchedule(...configs: Array<ScheduleFileConfig | undefined>): WorkSchedule {
+  const schedule: WorkSchedule = { ...DEFAULT_SCHEDULE };
+  for (const config of configs) {
+    if (!config) continue;
+    if (config.workdayStart) schedule.workdayStart = formatTime(parseTime(config.workdayStart));
+    if (config.dailyHours !== undefined) schedule.dailyHours = config.dailyHours;
+    if (config.breaks) {
+      schedule.breaks = config.breaks
+        .map((b) => ({ start: formatTime(parseTime(b.start)), end: formatTime(parseTime(b.end)) }))
+        .sort((a, b) => a.start.localeCompare(b.start));
+    }
+    if (config.workingDays) schedule.workingDays = config.workingDays;
+  }
+  return schedule;
+}
+
+export function isWorkingDay(schedule: WorkSchedule, date: string): boolean {
+  return schedule.workingDays.includes(isoWeekday(date));
+}
+
+/**
+ * Target hours for a date according to the schedule (0 on non-working days).
+ */
+export function targetHoursForDate(schedule: WorkSchedule, date: string): number {
+  return isWorkingDay(schedule, date) ? schedule.dailyHours : 0;
+}
+
+/**
+ * Breaks as [start, end) intervals in seconds since midnight.
+ */
+export function breakIntervals(schedule: WorkSchedule): Array<{ start: number; end: number }> {
+  return schedule.breaks.map((b) => ({ start: parseTime(b.start), end: parseTime(b.end) }));
+}
+
+/**
+ * End of the workday in seconds since midnight: workday start plus the daily
+ * hours, extended by any breaks that fall inside the day. Capped at midnight.
+ */
+export function workdayEndSeconds(schedule: WorkSchedule): number {
+  const start = parseTime(schedule.workdayStart);
+  let end = start + schedule.dailyHours * 3600;
+  for (const b of breakIntervals(schedule)) {
+    if (b.end <= start) continue;
+    if (b.start < end) {
+      end += b.end - Math.max(b.start, start);
+    }
+  }
+  return Math.min(end, 24 * 3600);
+}
+
+export interface RequiredDay {
+  requiredHours: number;
+  /** True for weekends, holidays and other days with zero required hours */
+  nonWorkingDay: boolean;
+  holiday: string | null;
+}
+
+/**
+ * Required hours per day for a date range.
+ *
+ * Uses Tempo's user schedule (which accounts for holidays and part-time days)
+ * and falls back to the configured schedule if Tempo's is unavailable or the
+ * instance has no Tempo.
+ */
+export async function getRequiredHours(
+  tempo: WorklogBackend,
+  schedule: WorkSchedule,
+  from: string,
+  to: string,
+  accountId?: string
+): Promise<{ source: "tempo" | "config"; days: Record<string, RequiredDay> }> {
+  if (tempo.getUserSchedule) {
+    try {
+      const days: Record<string, RequiredDay> = {};
+      const tempoDays = await tempo.getUserSchedule(from, to, accountId);
+      for (const d of tempoDays) {
+        const requiredHours = Number((d.requiredSeconds / 3600).toFixed(2));
+        days[d.date] = { requiredHours, nonWorkingDay: requiredHours === 0, holiday: d.holiday };
+      }
+      return { source: "tempo", days };
+    } catch (err) {
+      console.error("Failed to read Tempo user schedule, using configured schedule:", err);
+    }
+  }
+
+  const days: Record<string, RequiredDay> = {};
+  for (const date of eachDay(from, to)) {
+    const requiredHours = targetHoursForDate(schedule, date);
+    days[date] = { requiredHours, nonWorkingDay: requiredHours === 0, holiday: null };
+  }
+  return { source: "config", days };
+}
+
+export interface DayShortfall {
+  date: string;
+  weekday: string;
+  requiredHours: number;
+  loggedHours: number;
+  shortfallHours: number;
+}
+
+/**
+ * Days (of the given ones) where the logged time is below the required hours.
+ */
+export function findShortfalls(
+  days: string[],
+  required: Record<string, RequiredDay>,
+  entries: TempoWorklogEntry[]
+): DayShortfall[] {
+  const secondsByDay: Record<string, number> = {};
+  for (const e of entries) {
+    secondsByDay[e.startDate] = (secondsByDay[e.startDate] ?? 0) + e.timeSpentSeconds;
+  }
+
+  return days
+    .map((day) => {
+      const requiredHours = required[day]?.requiredHours ?? 0;
+      const loggedHours = Number(((secondsByDay[day] ?? 0) / 3600).toFixed(2));
+      return {
+        date: day,
+        weekday: weekdayName(day),
+        requiredHours,
+        loggedHours,
+        shortfallHours: Number(Math.max(0, requiredHours - loggedHours).toFixed(2)),
+      };
+    })
+    .filter((d) => d.shortfallHours > 0);
+}
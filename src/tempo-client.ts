@@ -3,6 +3,15 @@
  * Docs: https://apidocs.tempo.io/
  */
 
+import {
+  WorkSchedule,
+  DEFAULT_SCHEDULE,
+  parseTime,
+  formatTime,
+  breakIntervals,
+  workdayEndSeconds,
+} from "./schedule.js";
+
 export interface TempoConfig {
   apiToken: string;
 }
@@ -14,15 +23,110 @@ export interface TempoWorklog {
   startDate: string; // YYYY-MM-DD
   startTime?: string; // HH:MM:SS, defaults to 09:00:00
   authorAccountId: string;
+  attributes?: TempoAttributeValue[];
+  /** New remaining estimate of the issue; omitted leaves it to Tempo */
+  remainingEstimateSeconds?: number;
+  /**
+   * Leave the remaining estimate unchanged. Only the JIRA backend has a flag
+   * for this; Tempo relies on remainingEstimateSeconds carrying the current value.
+   */
+  keepRemainingEstimate?: boolean;
+}
+
+/** Work attribute value on a worklog. The billing account is an attribute too (type ACCOUNT). */
+export interface TempoAttributeValue {
+  key: string; // e.g. "_Account_", "_Billable_"
+  value: string;
+}
+
+export interface TempoWorkAttribute {
+  key: string;
+  name: string;
+  type: string; // ACCOUNT, CHECKBOX, INPUT_FIELD, INPUT_NUMERIC, STATIC_LIST
+  required: boolean;
+  values: string[];
+}
+
+export interface TempoAccount {
+  id: number;
+  key: string;
+  name: string;
+  status: string;
 }
 
 export interface TempoWorklogEntry {
   tempoWorklogId: number;
+  issueId: number;
   issueKey: string;
+  authorAccountId: string;
   timeSpentSeconds: number;
   description: string;
   startDate: string;
   startTime: string; // HH:MM:SS
+  attributes: TempoAttributeValue[];
+}
+
+export interface TempoScheduleDay {
+  date: string; // YYYY-MM-DD
+  requiredSeconds: number;
+  type: string; // WORKING_DAY, NON_WORKING_DAY, HOLIDAY, HOLIDAY_AND_NON_WORKING_DAY
+  holiday: string | null;
+}
+
+export interface TempoTeam {
+  id: number;
+  name: string;
+  summary: string | null;
+  leadAccountId: string | null;
+}
+
+export interface TempoTeamMember {
+  accountId: string;
+  role: string | null;
+  commitmentPercent: number | null;
+}
+
+export interface TempoApproval {
+  userAccountId: string;
+  from: string;
+  to: string;
+  status: string; // OPEN, IN_REVIEW, APPROVED, REJECTED
+  statusComment: string | null;
+  requiredSeconds: number;
+  timeSpentSeconds: number;
+  reviewerAccountId: string | null;
+}
+
+interface TimeInterval {
+  start: number; // seconds since midnight
+  end: number;
+}
+
+const DAY_SECONDS = 24 * 3600;
+
+function entryInterval(entry: TempoWorklogEntry): TimeInterval {
+  const start = parseTime(entry.startTime);
+  return { start, end: start + entry.timeSpentSeconds };
+}
+
+/**
+ * Earliest start within [windowStart, windowEnd] where `duration` fits between busy intervals.
+ */
+function findFreeSlot(
+  busy: TimeInterval[],
+  windowStart: number,
+  windowEnd: number,
+  duration: number
+): number | null {
+  const needed = Math.max(duration, 1);
+  let cursor = windowStart;
+  for (const interval of busy) {
+    if (interval.end <= cursor) continue;
+    if (interval.start >= windowEnd) break;
+    if (interval.start - cursor >= needed) return cursor;
+    cursor = Math.max(cursor, interval.end);
+  }
+  return windowEnd - cursor >= needed ? cursor : null;
 }
 
 export class TempoClient {
@@ -34,7 +138,8 @@ export class TempoClient {
   }
 
   private async request(path: string, options: RequestInit = {}): Promise<any> {
-    const url = `${this.baseUrl}${path}`;
+    // Pagination links (metadata.next) are absolute URLs
+    const url = path.startsWith("https://") ? path : `${this.baseUrl}${path}`;
     const res = await fetch(url, {
       ...options,
       headers: {
@@ -54,29 +159,75 @@ export class TempoClient {
     return res.json();
   }
 
+  private toEntry(w: any): TempoWorklogEntry {
+    return {
+      tempoWorklogId: w.tempoWorklogId,
+      issueId: w.issue?.id ?? 0,
+      issueKey: w.issue?.key ?? "UNKNOWN",
+      authorAccountId: w.author?.accountId ?? "",
+      timeSpentSeconds: w.timeSpentSeconds,
+      description: w.description ?? "",
+      startDate: w.startDate,
+      startTime: w.startTime ?? "09:00:00",
+      attributes: (w.attributes?.values ?? []).map((a: any) => ({ key: a.key, value: a.value })),
+    };
+  }
+
+  private toRequestBody(worklog: TempoWorklog): string {
+    return JSON.stringify({
+      issueId: worklog.issueId,
+      timeSpentSeconds: worklog.timeSpentSeconds,
+      startDate: worklog.startDate,
+      startTime: worklog.startTime ?? "09:00:00",
+      description: worklog.description,
+      authorAccountId: worklog.authorAccountId,
+      attributes: worklog.attributes ?? [],
+      remainingEstimateSeconds: worklog.remainingEstimateSeconds,
+    });
+  }
+
   /**
    * Log time on an issue.
    */
   async logTime(worklog: TempoWorklog): Promise<TempoWorklogEntry> {
     const data = await this.request("/worklogs", {
       method: "POST",
-      body: JSON.stringify({
-        issueId: worklog.issueId,
-        timeSpentSeconds: worklog.timeSpentSeconds,
-        startDate: worklog.startDate,
-        startTime: worklog.startTime ?? "09:00:00",
-        description: worklog.description,
-        authorAccountId: worklog.authorAccountId,
-      }),
+      body: this.toRequestBody(worklog),
     });
-    return {
-      tempoWorklogId: data.tempoWorklogId,
-      issueKey: data.issue?.key ?? "UNKNOWN",
-      timeSpentSeconds: data.timeSpentSeconds,
-      description: data.description,
-      startDate: data.startDate,
-      startTime: data.startTime ?? "09:00:00",
-    };
+    return this.toEntry(data);
+  }
+
+  /**
+   * Get a single worklog by its Tempo ID.
+   */
+  async getWorklog(worklogId: number): Promise<TempoWorklogEntry> {
+    const data = await this.request(`/worklogs/${worklogId}`);
+    return this.toEntry(data);
+  }
+
+  /**
+   * Replace an existing worklog. Tempo's PUT expects the full worklog, not a patch.
+   */
+  async updateWorklog(worklogId: number, worklog: TempoWorklog): Promise<TempoWorklogEntry> {
+    const data = await this.request(`/worklogs/${worklogId}`, {
+      method: "PUT",
+      body: this.toRequestBody(worklog),
+    });
+    return this.toEntry(data);
+  }
+
+  /**
+   * Fetch every page of a paginated Tempo list endpoint.
+   */
+  private async requestAllPages(path: string): Promise<any[]> {
+    const results: any[] = [];
+    let next: string | null = path;
+    while (next) {
+      const data = await this.request(next);
+      results.push(...(data.results ?? []));
+      next = data.metadata?.next ?? null;
+    }
+    return results;
   }
 
   /**
@@ -86,18 +237,22 @@ export class TempoClient {
     accountId: string,
     date: string
   ): Promise<{ entries: TempoWorklogEntry[]; totalSeconds: number }> {
-    const data = await this.request(
-      `/worklogs/user/${accountId}?from=${date}&to=${date}`
+    return this.getWorklogsForRange(accountId, date, date);
+  }
+
+  /**
+   * Get worklogs for a specific user in a date range (inclusive), following all pages.
+   */
+  async getWorklogsForRange(
+    accountId: string,
+    from: string,
+    to: string
+  ): Promise<{ entries: TempoWorklogEntry[]; totalSeconds: number }> {
+    const results = await this.requestAllPages(
+      `/worklogs/user/${accountId}?from=${from}&to=${to}&limit=1000`
     );
 
-    const entries: TempoWorklogEntry[] = (data.results ?? []).map((w: any) => ({
-      tempoWorklogId: w.tempoWorklogId,
-      issueKey: w.issue?.key ?? "UNKNOWN",
-      timeSpentSeconds: w.timeSpentSeconds,
-      description: w.description ?? "",
-      startDate: w.startDate,
-      startTime: w.startTime ?? "09:00:00",
-    }));
+    const entries: TempoWorklogEntry[] = results.map((w: any) => this.toEntry(w));
 
     const totalSeconds = entries.reduce(
       (sum, e) => sum + e.timeSpentSeconds,
@@ -107,6 +262,149 @@ export class TempoClient {
     return { entries, totalSeconds };
   }
 
+  /**
+   * Get worklogs of all members of a Tempo team in a date range (inclusive).
+   */
+  async getWorklogsForTeam(
+    teamId: number,
+    from: string,
+    to: string
+  ): Promise<{ entries: TempoWorklogEntry[]; totalSeconds: number }> {
+    const results = await this.requestAllPages(
+      `/worklogs/team/${teamId}?from=${from}&to=${to}&limit=1000`
+    );
+    const entries: TempoWorklogEntry[] = results.map((w: any) => this.toEntry(w));
+    const totalSeconds = entries.reduce((sum, e) => sum + e.timeSpentSeconds, 0);
+    return { entries, totalSeconds };
+  }
+
+  /**
+   * List Tempo teams.
+   */
+  async getTeams(): Promise<TempoTeam[]> {
+    const results = await this.requestAllPages("/teams?limit=1000");
+    return results.map((t: any) => ({
+      id: t.id,
+      name: t.name,
+      summary: t.summary ?? null,
+      leadAccountId: t.lead?.accountId ?? null,
+    }));
+  }
+
+  /**
+   * List the active members of a Tempo team.
+   */
+  async getTeamMembers(teamId: number): Promise<TempoTeamMember[]> {
+    const results = await this.requestAllPages(`/teams/${teamId}/members?limit=1000`);
+    return results.map((m: any) => ({
+      accountId: m.member?.accountId,
+      role: m.memberships?.active?.role?.name ?? null,
+      commitmentPercent: m.memberships?.active?.commitmentPercent ?? null,
+    }));
+  }
+
+  /**
+   * Get the required working time per day for a user (work schedule minus holidays).
+   * Without an account ID, returns the schedule of the token's owner.
+   */
+  async getUserSchedule(from: string, to: string, accountId?: string): Promise<TempoScheduleDay[]> {
+    const path = accountId ? `/user-schedule/${accountId}` : "/user-schedule";
+    const data = await this.request(`${path}?from=${from}&to=${to}`);
+    return (data.results ?? []).map((d: any) => ({
+      date: d.date,
+      requiredSeconds: d.requiredSeconds ?? 0,
+      type: d.type ?? "WORKING_DAY",
+      holiday: d.holiday?.name ?? null,
+    }));
+  }
+
+  /**
+   * List the work attributes configured in Tempo (e.g. Account, Billable, Activity type).
+   */
+  async getWorkAttributes(): Promise<TempoWorkAttribute[]> {
+    const results = await this.requestAllPages("/work-attributes");
+    return results.map((a: any) => ({
+      key: a.key,
+      name: a.name,
+      type: a.type,
+      required: a.required ?? false,
+      values: a.values ?? [],
+    }));
+  }
+
+  /**
+   * List Tempo accounts (billing accounts), optionally only open ones.
+   */
+  async getAccounts(openOnly = true): Promise<TempoAccount[]> {
+    const results = await this.requestAllPages("/accounts?limit=1000");
+    return results
+      .map((a: any) => ({ id: a.id, key: a.key, name: a.name, status: a.status ?? "OPEN" }))
+      .filter((a: TempoAccount) => !openOnly || a.status === "OPEN");
+  }
+
+  private toApproval(a: any, accountId?: string): TempoApproval {
+    return {
+      userAccountId: a.user?.accountId ?? accountId ?? "",
+      from: a.period?.from,
+      to: a.period?.to,
+      status: a.status?.key ?? "OPEN",
+      statusComment: a.status?.comment ?? null,
+      requiredSeconds: a.requiredSeconds ?? 0,
+      timeSpentSeconds: a.timeSpentSeconds ?? 0,
+      reviewerAccountId: a.reviewer?.accountId ?? null,
+    };
+  }
+
+  /**
+   * Get the timesheet approval status of a user for a period.
+   */
+  async getApprovalStatus(accountId: string, from: string, to: string): Promise<TempoApproval> {
+    const data = await this.request(`/timesheet-approvals/user/${accountId}?from=${from}&to=${to}`);
+    return this.toApproval(data, accountId);
+  }
+
+  /**
+   * Submit a user's timesheet for approval.
+   */
+  async submitTimesheet(
+    accountId: string,
+    from: string,
+    to: string,
+    reviewerAccountId?: string,
+    comment?: string
+  ): Promise<TempoApproval> {
+    const data = await this.request(`/timesheet-approvals/user/${accountId}/submit?from=${from}&to=${to}`, {
+      method: "POST",
+      body: JSON.stringify({ comment, reviewerAccountId }),
+    });
+    return this.toApproval(data, accountId);
+  }
+
+  /**
+   * List timesheets waiting for approval by the token's owner.
+   */
+  async getPendingApprovals(): Promise<TempoApproval[]> {
+    const results = await this.requestAllPages("/timesheet-approvals/waiting");
+    return results.map((a: any) => this.toApproval(a));
+  }
+
+  /**
+   * Approve or reject a user's submitted timesheet (approvers only).
+   */
+  async reviewTimesheet(
+    accountId: string,
+    from: string,
+    to: string,
+    action: "approve" | "reject",
+    comment?: string
+  ): Promise<TempoApproval> {
+    const data = await this.request(`/timesheet-approvals/user/${accountId}/${action}?from=${from}&to=${to}`, {
+      method: "POST",
+      body: JSON.stringify({ comment }),
+    });
+    return this.toApproval(data, accountId);
+  }
+
   /**
    * Delete a worklog by its Tempo ID.
    */
@@ -115,30 +413,66 @@ export class TempoClient {
   }
 
   /**
-   * Calculate the next available start time based on existing worklogs.
-   * Work day starts at 09:00 and ends at 17:00.
+   * Calculate the start time for a new worklog of `durationSeconds`.
+   *
+   * Fills the earliest free slot inside the workday (skipping existing worklogs
+   * and breaks). If nothing fits, uses the earliest free slot after the workday
+   * start, then any free slot that day. Never runs past midnight; if the day is
+   * full, returns the workday start (check with findOverlaps).
    */
-  static calculateNextStartTime(entries: TempoWorklogEntry[], workdayStart = "09:00:00"): string {
-    if (entries.length === 0) {
-      return workdayStart;
-    }
+  static calculateNextStartTime(
+    entries: TempoWorklogEntry[],
+    schedule: WorkSchedule = DEFAULT_SCHEDULE,
+    durationSeconds = 0
+  ): string {
+    const busy = [...entries.map(entryInterval), ...breakIntervals(schedule)].sort(
+      (a, b) => a.start - b.start
+    );
+    const dayStart = parseTime(schedule.workdayStart);
 
-    // Find the latest end time among all entries
-    let latestEndSeconds = 0;
-    for (const entry of entries) {
-      const [h, m, s] = entry.startTime.split(":").map(Number);
-      const startSeconds = h * 3600 + m * 60 + s;
-      const endSeconds = startSeconds + entry.timeSpentSeconds;
-      if (endSeconds > latestEndSeconds) {
-        latestEndSeconds = endSeconds;
-      }
-    }
+    const slot =
+      findFreeSlot(busy, dayStart, workdayEndSeconds(schedule), durationSeconds) ??
+      findFreeSlot(busy, dayStart, DAY_SECONDS, durationSeconds) ??
+      findFreeSlot(busy, 0, DAY_SECONDS, durationSeconds) ??
+      dayStart;
 
-    // Convert back to HH:MM:SS
-    const hours = Math.floor(latestEndSeconds / 3600);
-    const minutes = Math.floor((latestEndSeconds % 3600) / 60);
-    const seconds = latestEndSeconds % 60;
+    return formatTime(slot);
+  }
 
-    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${seconds.toString().padStart(2, "0")}`;
+  /**
+   * Existing worklogs that overlap [startTime, startTime + durationSeconds).
+   */
+  static findOverlaps(
+    entries: TempoWorklogEntry[],
+    startTime: string,
+    durationSeconds: number
+  ): TempoWorklogEntry[] {
+    const start = parseTime(startTime);
+    const end = start + durationSeconds;
+    return entries.filter((entry) => {
+      const interval = entryInterval(entry);
+      return interval.start < end && interval.end > start;
+    });
+  }
+
+  /**
+   * Existing worklogs that look like the same booking: same issue, same
+   * description (ignoring case and whitespace) and a similar duration
+   * (within 10%, at least 5 minutes).
+   */
+  static findDuplicates(
+    entries: TempoWorklogEntry[],
+    issueId: number,
+    durationSeconds: number,
+    description: string
+  ): TempoWorklogEntry[] {
+    const normalize = (text: string) => text.trim().replace(/\s+/g, " ").toLowerCase();
+    const tolerance = Math.max(300, durationSeconds * 0.1);
+    return entries.filter(
+      (entry) =>
+        entry.issueId === issueId &&
+        Math.abs(entry.timeSpentSeconds - durationSeconds) <= tolerance &&
+        normalize(entry.description) === normalize(description)
+    );
   }
 }
@@ -0,0 +1,66 @@
+/**
+ * Running work timers, persisted locally so they survive server restarts.
+ *
+ * Timers are keyed by instance + issue key; at most one timer per issue.
+ */
+
+import { readState, writeState } from "./local-state.js";
+
+const TIMERS_FILE = "timers.json";
+
+export interface RunningTimer {
+  instance: string;
+  issueKey: string;
+  description: string;
+  startedAt: string; // ISO timestamp
+}
+
+type TimerMap = Record<string, RunningTimer>;
+
+function timerKey(instance: string, issueKey: string): string {
+  return `${instance}:${issueKey}`;
+}
+
+function loadTimers(): TimerMap {
+  return readState<TimerMap>(TIMERS_FILE, {});
+}
+
+/**
+ * Start a timer. Throws if one is already running for the issue.
+ */
+export function startTimer(instance: string, issueKey: string, description: string): RunningTimer {
+  const timers = loadTimers();
+  const key = timerKey(instance, issueKey);
+  if (timers[key]) {
+    throw new Error(`A timer for ${issueKey} is already running since ${timers[key].startedAt}`);
+  }
+  const timer: RunningTimer = { instance, issueKey, description, startedAt: new Date().toISOString() };
+  timers[key] = timer;
+  writeState(TIMERS_FILE, timers);
+  return timer;
+}
+
+export function getTimer(instance: string, issueKey: string): RunningTimer | null {
+  return loadTimers()[timerKey(instance, issueKey)] ?? null;
+}
+
+/**
+ * List running timers, optionally for one instance only.
+ */
+export function listTimers(instance?: string): RunningTimer[] {
+  return Object.values(loadTimers()).filter((t) => !instance || t.instance === instance);
+}
+
+export function removeTimer(instance: string, issueKey: string): void {
+  const timers = loadTimers();
+  delete timers[timerKey(instance, issueKey)];
+  writeState(TIMERS_FILE, timers);
+}
+
+/**
+ * Round elapsed seconds to the nearest multiple of the granularity (at least one unit).
+ */
+export function roundElapsed(elapsedSeconds: number, granularityMinutes: number): number {
+  const unit = Math.max(1, granularityMinutes) * 60;
+  return Math.max(unit, Math.round(elapsedSeconds / unit) * unit);
+}
@@ -0,0 +1,193 @@
+/**
+ * Timesheet export: CSV, Markdown (grouped by issue or epic) and iCalendar.
+ */
+
+import { TempoWorklogEntry } from "./tempo-client.js";
+import { JiraIssueContext } from "./jira-client.js";
+import { formatCsv } from "./csv.js";
+
+export type ExportFormat = "csv" | "markdown" | "ics";
+
+export interface ExportOptions {
+  instance: string;
+  from: string;
+  to: string;
+  /** Issue summaries and epics, keyed by issue key */
+  issues: Record<string, JiraIssueContext>;
+  /** Markdown grouping (default: issue) */
+  groupBy?: "issue" | "epic";
+}
+
+function hours(seconds: number): string {
+  return (seconds / 3600).toFixed(2);
+}
+
+function sortEntries(entries: TempoWorklogEntry[]): TempoWorklogEntry[] {
+  return [...entries].sort(
+    (a, b) => a.startDate.localeCompare(b.startDate) || a.startTime.localeCompare(b.startTime)
+  );
+}
+
+function sumSeconds(entries: TempoWorklogEntry[]): number {
+  return entries.reduce((sum, e) => sum + e.timeSpentSeconds, 0);
+}
+
+function groupEntries(
+  entries: TempoWorklogEntry[],
+  keyOf: (e: TempoWorklogEntry) => string
+): Map<string, TempoWorklogEntry[]> {
+  const groups = new Map<string, TempoWorklogEntry[]>();
+  for (const e of entries) {
+    const key = keyOf(e);
+    if (!groups.has(key)) groups.set(key, []);
+    groups.get(key)!.push(e);
+  }
+  return groups;
+}
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+export function toCsv(entries: TempoWorklogEntry[], options: ExportOptions): string {
+  const rows: Array<Array<string | number>> = [
+    ["date", "startTime", "issueKey", "summary", "epic", "hours", "description", "worklogId"],
+  ];
+  for (const e of sortEntries(entries)) {
+    const issue = options.issues[e.issueKey];
+    rows.push([
+      e.startDate,
+      e.startTime,
+      e.issueKey,
+      issue?.summary ?? "",
+      issue?.parent?.key ?? "",
+      hours(e.timeSpentSeconds),
+      e.description,
+      e.tempoWorklogId,
+    ]);
+  }
+  return formatCsv(rows);
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/** Escape pipes and newlines so text fits in a table cell. */
+function cell(text: string): string {
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+export function toMarkdown(entries: TempoWorklogEntry[], options: ExportOptions): string {
+  const lines: string[] = [
+    `# Timesheet ${options.instance}: ${options.from} – ${options.to}`,
+    "",
+    `**Total:** ${hours(sumSeconds(entries))}h`,
+    "",
+  ];
+
+  if (options.groupBy === "epic") {
+    const byEpic = groupEntries(entries, (e) => options.issues[e.issueKey]?.parent?.key ?? "");
+    const epicKeys = [...byEpic.keys()].sort((a, b) => (a === "" ? 1 : b === "" ? -1 : a.localeCompare(b)));
+    for (const epicKey of epicKeys) {
+      const epicEntries = byEpic.get(epicKey)!;
+      const epic = epicEntries
+        .map((e) => options.issues[e.issueKey]?.parent)
+        .find((p) => p?.key === epicKey);
+      const title = epicKey ? `${epicKey} ${epic?.summary ?? ""}`.trim() : "No epic";
+      lines.push(`## ${title} (${hours(sumSeconds(epicEntries))}h)`, "");
+      lines.push("| Issue | Summary | Hours |", "|---|---|---|");
+      for (const [issueKey, issueEntries] of groupEntries(epicEntries, (e) => e.issueKey)) {
+        const summary = options.issues[issueKey]?.summary ?? "";
+        lines.push(`| ${issueKey} | ${cell(summary)} | ${hours(sumSeconds(issueEntries))} |`);
+      }
+      lines.push("");
+    }
+  } else {
+    const byIssue = groupEntries(sortEntries(entries), (e) => e.issueKey);
+    for (const issueKey of [...byIssue.keys()].sort()) {
+      const issueEntries = byIssue.get(issueKey)!;
+      const summary = options.issues[issueKey]?.summary ?? "";
+      lines.push(`## ${`${issueKey} ${summary}`.trim()} (${hours(sumSeconds(issueEntries))}h)`, "");
+      lines.push("| Date | Start | Hours | Description |", "|---|---|---|---|");
+      for (const e of issueEntries) {
+        lines.push(`| ${e.startDate} | ${e.startTime.slice(0, 5)} | ${hours(e.timeSpentSeconds)} | ${cell(e.description)} |`);
+      }
+      lines.push("");
+    }
+  }
+
+  return lines.join("\n");
+}
+
+// ---------------------------------------------------------------------------
+// iCalendar (RFC 5545)
+// ---------------------------------------------------------------------------
+
+function icsEscape(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+/** Fold content lines longer than 75 characters. */
+function icsFold(line: string): string {
+  const parts: string[] = [];
+  let rest = line;
+  while (rest.length > 75) {
+    parts.push(rest.slice(0, 75));
+    rest = " " + rest.slice(75);
+  }
+  parts.push(rest);
+  return parts.join("\r\n");
+}
+
+function icsDuration(seconds: number): string {
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  return `PT${h ? `${h}H` : ""}${m ? `${m}M` : ""}${s || (!h && !m) ? `${s}S` : ""}`;
+}
+
+/**
+ * One VEVENT per worklog. Start times are floating (local wall-clock) times,
+ * matching how Tempo stores them.
+ */
+export function toIcs(entries: TempoWorklogEntry[], options: ExportOptions): string {
+  const stamp = new Date().toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//jira-tempo-mcp//timesheet export//EN",
+    "CALSCALE:GREGORIAN",
+    `X-WR-CALNAME:${icsEscape(`Timesheet ${options.instance} ${options.from} to ${options.to}`)}`,
+  ];
+  for (const e of sortEntries(entries)) {
+    const summary = options.issues[e.issueKey]?.summary;
+    lines.push(
+      "BEGIN:VEVENT",
+      `UID:tempo-${e.tempoWorklogId}@jira-tempo-mcp`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${e.startDate.replace(/-/g, "")}T${e.startTime.replace(/:/g, "")}`,
+      `DURATION:${icsDuration(e.timeSpentSeconds)}`,
+      `SUMMARY:${icsEscape(summary ? `${e.issueKey}: ${summary}` : e.issueKey)}`,
+      `DESCRIPTION:${icsEscape(e.description)}`,
+      "END:VEVENT"
+    );
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(icsFold).join("\r\n") + "\r\n";
+}
+
+export function exportTimesheet(
+  format: ExportFormat,
+  entries: TempoWorklogEntry[],
+  options: ExportOptions
+): string {
+  switch (format) {
+    case "csv":
+      return toCsv(entries, options);
+    case "markdown":
+      return toMarkdown(entries, options);
+    case "ics":
+      return toIcs(entries, options);
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * Resolving workflow transitions by target status and filling their screens.
+ */
+
+import { JiraTransition, JiraTransitionField } from "./jira-client.js";
+import { StatusGraph } from "./workflow-store.js";
+
+/**
+ * Find the transition into a status (case-insensitive). Falls back to the
+ * transition name, since some workflows name transitions after their target.
+ */
+export function findTransition(transitions: JiraTransition[], status: string): JiraTransition | null {
+  const wanted = status.trim().toLowerCase();
+  return (
+    transitions.find((t) => t.to.toLowerCase() === wanted) ??
+    transitions.find((t) => t.name.toLowerCase() === wanted) ??
+    null
+  );
+}
+
+export interface ResolvedTransitionFields {
+  /** Request body fields by field ID */
+  fields: Record<string, unknown>;
+  /** Required fields without a default that were not given */
+  missing: JiraTransitionField[];
+  /** Fields that are not on the screen, or values that are not allowed */
+  problems: string[];
+}
+
+/**
+ * Map user-supplied values (keyed by field ID or name) to a transition's
+ * fields. Strings for select-like fields are matched against the allowed
+ * values by name, so `{ resolution: "Won't Do" }` becomes `{ resolution: { id } }`.
+ */
+export function resolveTransitionFields(
+  transition: JiraTransition,
+  values: Record<string, unknown>
+): ResolvedTransitionFields {
+  const fields: Record<string, unknown> = {};
+  const problems: string[] = [];
+
+  for (const [key, value] of Object.entries(values)) {
+    const field = transition.fields.find(
+      (f) => f.id === key || f.name.toLowerCase() === key.toLowerCase()
+    );
+    if (!field) {
+      problems.push(`'${key}' is not on the "${transition.name}" transition screen`);
+      continue;
+    }
+
+    if (typeof value === "string" && field.allowedValues) {
+      const allowed = field.allowedValues.find((v) => v.name.toLowerCase() === value.toLowerCase());
+      if (!allowed) {
+        problems.push(
+          `'${value}' is not a valid ${field.name}. Allowed: ${field.allowedValues.map((v) => v.name).join(", ")}`
+        );
+        continue;
+      }
+      fields[field.id] = { id: allowed.id };
+    } else {
+      fields[field.id] = value;
+    }
+  }
+
+  const missing = transition.fields.filter(
+    (f) => f.required && !f.hasDefaultValue && !(f.id in fields)
+  );
+
+  return { fields, missing, problems };
+}
+
+/** Human-readable list of missing fields, with allowed values where known. */
+export function describeMissingFields(missing: JiraTransitionField[]): string {
+  return missing
+    .map((f) =>
+      f.allowedValues
+        ? `- ${f.name} (${f.id}): one of ${f.allowedValues.map((v) => v.name).join(", ")}`
+        : `- ${f.name} (${f.id})`
+    )
+    .join("\n");
+}
+
+/**
+ * Shortest status path from `from` to `to` (both included), at most `maxHops`
+ * transitions long, or null. Statuses compare case-insensitively. Edges from
+ * the preferred paths are tried first, so they win among equally short paths.
+ */
+export function findStatusPath(
+  graph: StatusGraph,
+  from: string,
+  to: string,
+  maxHops: number,
+  preferredPaths: string[][] = []
+): string[] | null {
+  const norm = (status: string) => status.trim().toLowerCase();
+  if (norm(from) === norm(to)) return [from];
+
+  const preferred = new Set(
+    preferredPaths.flatMap((path) => path.slice(1).map((status, i) => `${norm(path[i])}→${norm(status)}`))
+  );
+
+  const edges = new Map<string, string[]>();
+  const addEdge = (source: string, target: string) => {
+    const list = edges.get(norm(source)) ?? [];
+    if (!list.some((s) => norm(s) === norm(target))) list.push(target);
+    edges.set(norm(source), list);
+  };
+  for (const [source, targets] of Object.entries(graph)) {
+    for (const target of targets) addEdge(source, target);
+  }
+  // Configured paths fill in statuses that have not been observed yet
+  for (const path of preferredPaths) {
+    for (let i = 1; i < path.length; i++) {
+      if (!Object.keys(graph).some((s) => norm(s) === norm(path[i - 1]))) addEdge(path[i - 1], path[i]);
+    }
+  }
+
+  const previous = new Map<string, string[]>([[norm(from), [from]]]);
+  let frontier = [from];
+  for (let hop = 0; hop < maxHops && frontier.length > 0; hop++) {
+    const next: string[] = [];
+    for (const status of frontier) {
+      const targets = [...(edges.get(norm(status)) ?? [])].sort(
+        (a, b) =>
+          Number(preferred.has(`${norm(status)}→${norm(b)}`)) - Number(preferred.has(`${norm(status)}→${norm(a)}`))
+      );
+      for (const target of targets) {
+        if (previous.has(norm(target))) continue;
+        const path = [...previous.get(norm(status))!, target];
+        if (norm(target) === norm(to)) return path;
+        previous.set(norm(target), path);
+        next.push(target);
+      }
+    }
+    frontier = next;
+  }
+  return null;
+}
+
+/**
+ * Transition to try when no known path leads to the target: the first one into
+ * a status not visited yet that needs no screen input. Done-category statuses
+ * are never explored, since entering them can resolve the issue and fire
+ * post-functions. Null when nothing is left to explore.
+ */
+export function pickExplorationStep(transitions: JiraTransition[], visited: string[]): JiraTransition | null {
+  const norm = (status: string) => status.trim().toLowerCase();
+  return (
+    transitions.find(
+      (t) =>
+        t.toCategory !== "done" &&
+        !visited.some((s) => norm(s) === norm(t.to)) &&
+        resolveTransitionFields(t, {}).missing.length === 0
+    ) ?? null
+  );
+}
@@ -0,0 +1,40 @@
+/**
+ * Workflow transitions seen so far, persisted locally.
+ *
+ * JIRA only lists the transitions out of an issue's current status, so
+ * multi-hop navigation plans over the transitions observed earlier for the
+ * same project and issue type.
+ */
+
+import { readState, writeState } from "./local-state.js";
+
+const WORKFLOWS_FILE = "workflows.json";
+
+/** Target statuses by source status */
+export type StatusGraph = Record<string, string[]>;
+
+type WorkflowMap = Record<string, StatusGraph>;
+
+function workflowKey(instance: string, project: string, issueType: string): string {
+  return `${instance}:${project}:${issueType}`;
+}
+
+export function getKnownTransitions(instance: string, project: string, issueType: string): StatusGraph {
+  return readState<WorkflowMap>(WORKFLOWS_FILE, {})[workflowKey(instance, project, issueType)] ?? {};
+}
+
+/**
+ * Record the statuses reachable from `from`, replacing what was known for it.
+ */
+export function recordTransitions(
+  instance: string,
+  project: string,
+  issueType: string,
+  from: string,
+  to: string[]
+): void {
+  const workflows = readState<WorkflowMap>(WORKFLOWS_FILE, {});
+  const key = workflowKey(instance, project, issueType);
+  workflows[key] = { ...workflows[key], [from]: to };
+  writeState(WORKFLOWS_FILE, workflows);
+}
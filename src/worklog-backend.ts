@@ -0,0 +1,179 @@
+/**
+ * Worklog storage per instance: Tempo when configured, otherwise JIRA's
+ * native worklog API behind the same interface, so the worklog tools
+ * (start-time placement, daily summaries, undo) work on both.
+ */
+
+import { JiraClient, JiraIssueListItem, JiraWorklog, JiraWorklogInput } from "./jira-client.js";
+import { TempoClient, TempoWorklog, TempoWorklogEntry, TempoScheduleDay } from "./tempo-client.js";
+import { InstanceConfig } from "./config.js";
+import { addDays, toZonedDate, toZonedTime, zonedOffset } from "./date-utils.js";
+
+export interface WorklogBackend {
+  logTime(worklog: TempoWorklog): Promise<TempoWorklogEntry>;
+  getWorklog(worklogId: number): Promise<TempoWorklogEntry>;
+  updateWorklog(worklogId: number, worklog: TempoWorklog): Promise<TempoWorklogEntry>;
+  deleteWorklog(worklogId: number): Promise<void>;
+  getWorklogsForDate(
+    accountId: string,
+    date: string
+  ): Promise<{ entries: TempoWorklogEntry[]; totalSeconds: number }>;
+  getWorklogsForRange(
+    accountId: string,
+    from: string,
+    to: string
+  ): Promise<{ entries: TempoWorklogEntry[]; totalSeconds: number }>;
+  /** Only Tempo knows per-user schedules and holidays */
+  getUserSchedule?(from: string, to: string, accountId?: string): Promise<TempoScheduleDay[]>;
+}
+
+/** Issues per JQL search page; further pages are fetched until the last one */
+const WORKLOG_ISSUES_PAGE_SIZE = 100;
+
+/**
+ * Native JIRA worklogs. Entries use the TempoWorklogEntry shape with the JIRA
+ * worklog ID in `tempoWorklogId`; start dates and times are wall-clock times
+ * in the instance's time zone.
+ */
+export class JiraWorklogBackend implements WorklogBackend {
+  constructor(
+    private jira: JiraClient,
+    private timeZone: string
+  ) {}
+
+  private toInput(worklog: TempoWorklog): JiraWorklogInput {
+    const startTime = worklog.startTime ?? "09:00:00";
+    return {
+      started: `${worklog.startDate}T${startTime}.000${zonedOffset(worklog.startDate, startTime, this.timeZone)}`,
+      timeSpentSeconds: worklog.timeSpentSeconds,
+      comment: worklog.description,
+      remainingEstimateSeconds: worklog.remainingEstimateSeconds,
+      keepRemainingEstimate: worklog.keepRemainingEstimate,
+    };
+  }
+
+  private toEntry(w: JiraWorklog, issueKey: string): TempoWorklogEntry {
+    // JIRA returns offsets without a colon ("+0200"), which Date does not parse everywhere
+    const started = new Date(w.started.replace(/([+-]\d{2})(\d{2})$/, "$1:$2"));
+    return {
+      tempoWorklogId: w.id,
+      issueId: w.issueId,
+      issueKey,
+      authorAccountId: w.authorAccountId,
+      timeSpentSeconds: w.timeSpentSeconds,
+      description: w.comment,
+      startDate: toZonedDate(started, this.timeZone),
+      startTime: toZonedTime(started, this.timeZone),
+      attributes: [],
+    };
+  }
+
+  private async findWorklog(worklogId: number): Promise<JiraWorklog> {
+    const [worklog] = await this.jira.getWorklogsByIds([worklogId]);
+    // Same shape as a 404 from the API, so isNotFoundError() covers both backends
+    if (!worklog) throw new Error(`JIRA API error 404: worklog ${worklogId} not found`);
+    return worklog;
+  }
+
+  private async issueKeyForId(issueId: number): Promise<string> {
+    const result = await this.jira.searchIssues(`id = ${issueId}`, 1);
+    return result.issues[0]?.key ?? "UNKNOWN";
+  }
+
+  async logTime(worklog: TempoWorklog): Promise<TempoWorklogEntry> {
+    const created = await this.jira.addWorklog(worklog.issueId, this.toInput(worklog));
+    return this.toEntry(created, await this.issueKeyForId(created.issueId));
+  }
+
+  async getWorklog(worklogId: number): Promise<TempoWorklogEntry> {
+    const worklog = await this.findWorklog(worklogId);
+    return this.toEntry(worklog, await this.issueKeyForId(worklog.issueId));
+  }
+
+  async updateWorklog(worklogId: number, worklog: TempoWorklog): Promise<TempoWorklogEntry> {
+    const existing = await this.findWorklog(worklogId);
+    if (existing.issueId !== worklog.issueId) {
+      throw new Error("JIRA worklogs cannot be moved to another issue");
+    }
+    const updated = await this.jira.updateWorklog(existing.issueId, worklogId, this.toInput(worklog));
+    return this.toEntry(updated, await this.issueKeyForId(updated.issueId));
+  }
+
+  async deleteWorklog(worklogId: number): Promise<void> {
+    const existing = await this.findWorklog(worklogId);
+    await this.jira.deleteWorklog(existing.issueId, worklogId);
+  }
+
+  async getWorklogsForDate(
+    accountId: string,
+    date: string
+  ): Promise<{ entries: TempoWorklogEntry[]; totalSeconds: number }> {
+    return this.getWorklogsForRange(accountId, date, date);
+  }
+
+  /**
+   * Find the issues the user logged on via JQL, then read their worklogs.
+   * worklogDate is evaluated in the JIRA user's time zone, so the search is
+   * widened by a day on both ends and entries are filtered locally.
+   */
+  async getWorklogsForRange(
+    accountId: string,
+    from: string,
+    to: string
+  ): Promise<{ entries: TempoWorklogEntry[]; totalSeconds: number }> {
+    const searchFrom = addDays(from, -1);
+    const searchTo = addDays(to, 1);
+    const jql = `worklogAuthor = "${accountId}" AND worklogDate >= "${searchFrom}" AND worklogDate <= "${searchTo}"`;
+    const issues: JiraIssueListItem[] = [];
+    let pageToken: string | undefined;
+    do {
+      const page = await this.jira.searchIssues(jql, WORKLOG_ISSUES_PAGE_SIZE, pageToken);
+      issues.push(...page.issues);
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    const startedAfter = Date.parse(`${searchFrom}T00:00:00Z`);
+    const startedBefore = Date.parse(`${addDays(searchTo, 1)}T00:00:00Z`);
+    const perIssue = await Promise.all(
+      issues.map(async (issue) =>
+        (await this.jira.getIssueWorklogs(issue.key, startedAfter, startedBefore))
+          .filter((w) => w.authorAccountId === accountId)
+          .map((w) => this.toEntry(w, issue.key))
+      )
+    );
+
+    const entries = perIssue
+      .flat()
+      .filter((e) => e.startDate >= from && e.startDate <= to)
+      .sort((a, b) => a.startDate.localeCompare(b.startDate) || a.startTime.localeCompare(b.startTime));
+
+    const totalSeconds = entries.reduce((sum, e) => sum + e.timeSpentSeconds, 0);
+
+    return { entries, totalSeconds };
+  }
+}
+
+/**
+ * Worklog backend for an instance: Tempo if it has a Tempo token, native JIRA worklogs otherwise.
+ */
+export function createWorklogBackend(instance: InstanceConfig): WorklogBackend {
+  return instance.tempo
+    ? new TempoClient(instance.tempo)
+    : new JiraWorklogBackend(new JiraClient(instance.jira), instance.timezone);
+}
+
+/**
+ * Whether a backend error means the worklog (or issue) does not exist, as
+ * opposed to a network, auth or server error worth retrying.
+ */
+export function isNotFoundError(err: unknown): boolean {
+  return err instanceof Error && /API error 404\b/.test(err.message);
+}
+
+/**
+ * Narrow a backend to Tempo for features JIRA's worklog API has no equivalent for.
+ */
+export function requireTempo(backend: WorklogBackend, instanceName: string, feature: string): TempoClient {
+  if (backend instanceof TempoClient) return backend;
+  throw new Error(`${feature} requires Tempo, but instance "${instanceName}" has no Tempo token configured.`);
+}
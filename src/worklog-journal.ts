@@ -0,0 +1,110 @@
+/**
+ * Local undo journal for Tempo worklog changes.
+ *
+ * Every create/update/delete done through the MCP tools is recorded with the
+ * worklog state before and after the change, so the last change per instance
+ * can be reverted with tempo_undo_last.
+ */
+
+import { TempoWorklog, TempoWorklogEntry } from "./tempo-client.js";
+import { WorklogBackend } from "./worklog-backend.js";
+import { readState, writeState } from "./local-state.js";
+
+const JOURNAL_FILE = "journal.json";
+
+/** Keep the journal from growing forever */
+const MAX_ENTRIES = 200;
+
+export type JournalAction = "create" | "update" | "delete";
+
+export interface WorklogSnapshot extends TempoWorklog {
+  issueKey: string;
+}
+
+export interface JournalEntry {
+  instance: string;
+  action: JournalAction;
+  worklogId: number;
+  timestamp: string;
+  /** Worklog state before the change (absent for create) */
+  before?: WorklogSnapshot;
+  /** Worklog state after the change (absent for delete) */
+  after?: WorklogSnapshot;
+}
+
+export function toSnapshot(entry: TempoWorklogEntry): WorklogSnapshot {
+  return {
+    issueId: entry.issueId,
+    issueKey: entry.issueKey,
+    timeSpentSeconds: entry.timeSpentSeconds,
+    description: entry.description,
+    startDate: entry.startDate,
+    startTime: entry.startTime,
+    authorAccountId: entry.authorAccountId,
+    attributes: entry.attributes,
+  };
+}
+
+function loadJournal(): JournalEntry[] {
+  return readState<JournalEntry[]>(JOURNAL_FILE, []);
+}
+
+/**
+ * Append a change to the journal.
+ */
+export function recordChange(entry: Omit<JournalEntry, "timestamp">): void {
+  const journal = loadJournal();
+  journal.push({ ...entry, timestamp: new Date().toISOString() });
+  writeState(JOURNAL_FILE, journal.slice(-MAX_ENTRIES));
+}
+
+/**
+ * Revert the most recent change for an instance and remove it from the journal.
+ * Returns the reverted entry, or null if there is nothing to undo.
+ */
+export async function undoLastChange(
+  instance: string,
+  backend: WorklogBackend
+): Promise<{ entry: JournalEntry; result: string } | null> {
+  const journal = loadJournal();
+  let index = -1;
+  for (let i = journal.length - 1; i >= 0; i--) {
+    if (journal[i].instance === instance) {
+      index = i;
+      break;
+    }
+  }
+  if (index === -1) return null;
+
+  const entry = journal[index];
+  let result: string;
+
+  switch (entry.action) {
+    case "create":
+      await backend.deleteWorklog(entry.worklogId);
+      result = `Deleted worklog ${entry.worklogId}.`;
+      break;
+    case "update": {
+      const { issueKey, ...worklog } = entry.before!;
+      await backend.updateWorklog(entry.worklogId, worklog);
+      result = `Restored worklog ${entry.worklogId} on ${issueKey} to its previous state.`;
+      break;
+    }
+    case "delete": {
+      const { issueKey, ...worklog } = entry.before!;
+      const recreated = await backend.logTime(worklog);
+      // Older entries still point at the old ID; keep them undoable
+      for (const other of journal) {
+        if (other.instance === instance && other.worklogId === entry.worklogId) {
+          other.worklogId = recreated.tempoWorklogId;
+        }
+      }
+      result = `Recreated deleted worklog on ${issueKey} as ${recreated.tempoWorklogId}.`;
+      break;
+    }
+  }
+
+  journal.splice(index, 1);
+  writeState(JOURNAL_FILE, journal);
+  return { entry, result };
+}